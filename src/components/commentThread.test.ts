@@ -0,0 +1,173 @@
+/**
+ * @file commentThread.test.ts
+ * @description Unit tests for building and rendering comment trees.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildCommentTree,
+  commentThreadActions,
+  expandCommentThread,
+  renderCommentThread,
+  takeCommentThreads,
+} from './commentThread';
+import { delegateActions } from '../utils/ui';
+import type { Comment } from '../services/interactions/interactions';
+
+function comment(
+  id: number,
+  replyToId: number | null = null,
+  minute: number = id
+): Comment {
+  const created = new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString();
+  return {
+    id: String(id),
+    body: `Comment ${id}`,
+    replyToId: replyToId === null ? null : String(replyToId),
+    postId: '1',
+    owner: `user${id}`,
+    created,
+    updated: created,
+    author: { name: `user${id}`, email: '' },
+  };
+}
+
+function render(comments: Comment[], options = {}): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderCommentThread(comments, {
+    renderComment: ({ id }) => `<p class="body">${id}</p>`,
+    ...options,
+  });
+  return container;
+}
+
+describe('buildCommentTree', () => {
+  it('nests replies under their parents, oldest first', () => {
+    const tree = buildCommentTree([
+      comment(3, 1),
+      comment(1),
+      comment(2, 1, 0),
+      comment(4, 3),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].replyCount).toBe(3);
+    expect(tree[0].replies.map((node) => node.comment.id)).toEqual(['2', '3']);
+    expect(tree[0].replies[1].replies[0].comment.id).toBe('4');
+  });
+
+  it('shows replies to missing comments at the top level', () => {
+    const tree = buildCommentTree([comment(1), comment(2, 99)]);
+
+    expect(tree.map((node) => node.comment.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('renderCommentThread', () => {
+  it('returns nothing without comments', () => {
+    expect(render([]).innerHTML).toBe('');
+  });
+
+  it('stops indenting past the maximum depth', () => {
+    const container = render(
+      [comment(1), comment(2, 1), comment(3, 2), comment(4, 3)],
+      { maxDepth: 2 }
+    );
+
+    const depths = Array.from(
+      container.querySelectorAll<HTMLElement>('.comment-thread-item'),
+      (item) => [item.dataset.threadCommentId, item.dataset.depth]
+    );
+    expect(depths).toEqual([
+      ['1', '0'],
+      ['2', '1'],
+      ['3', '2'],
+      ['4', '2'],
+    ]);
+    expect(
+      container.querySelector(
+        '[data-thread-comment-id="4"] .comment-parent-link'
+      )?.textContent
+    ).toContain('user3');
+  });
+
+  it('hides replies past the visible count behind "load more replies"', () => {
+    const container = render(
+      [comment(1), comment(2, 1), comment(3, 1), comment(4, 1)],
+      { visibleReplies: 2 }
+    );
+
+    const hidden = container.querySelectorAll<HTMLElement>(
+      '.comment-replies > .comment-thread-item[hidden]'
+    );
+    expect(Array.from(hidden, (item) => item.dataset.threadCommentId)).toEqual([
+      '4',
+    ]);
+    expect(
+      container.querySelector('.comment-more-replies-btn')?.textContent?.trim()
+    ).toBe('Load 1 more reply');
+  });
+
+  it('shows every reply once the thread is expanded', () => {
+    expandCommentThread('10');
+    const container = render(
+      [comment(10), comment(11, 10), comment(12, 10), comment(13, 10)],
+      { visibleReplies: 2 }
+    );
+
+    expect(container.querySelector('.comment-thread-item[hidden]')).toBeNull();
+    expect(container.querySelector('.comment-more-replies')).toBeNull();
+    expect(
+      container.querySelector('.comment-replies-toggle')?.textContent?.trim()
+    ).toBe('Hide 3 replies');
+  });
+});
+
+describe('commentThreadActions', () => {
+  it('collapses replies and shows the ones behind "load more replies"', () => {
+    const container = render(
+      [comment(20), comment(21, 20), comment(22, 20), comment(23, 20)],
+      { visibleReplies: 2 }
+    );
+    const stop = delegateActions(container, commentThreadActions);
+    const item = container.querySelector('.comment-thread-item')!;
+
+    container.querySelector<HTMLElement>('.comment-replies-toggle')!.click();
+    expect(item.classList.contains('collapsed')).toBe(true);
+
+    container.querySelector<HTMLElement>('.comment-more-replies-btn')!.click();
+    expect(container.querySelector('.comment-thread-item[hidden]')).toBeNull();
+    expect(container.querySelector('.comment-more-replies')).toBeNull();
+    stop();
+  });
+});
+
+describe('takeCommentThreads', () => {
+  const comments = [
+    comment(1),
+    comment(2),
+    comment(3, 1),
+    comment(4),
+    comment(5, 4),
+    comment(6, 4),
+  ];
+
+  it('takes top-level threads together with their replies', () => {
+    const { comments: taken, hiddenThreads } = takeCommentThreads(comments, {
+      limit: 2,
+    });
+
+    expect(taken.map((item) => item.id)).toEqual(['1', '3', '2']);
+    expect(hiddenThreads).toBe(1);
+  });
+
+  it('sorts threads by newest or by number of replies', () => {
+    const byId = (sort: 'newest' | 'replies') =>
+      takeCommentThreads(comments, { sort })
+        .comments.filter((item) => item.replyToId === null)
+        .map((item) => item.id);
+
+    expect(byId('newest')).toEqual(['4', '2', '1']);
+    expect(byId('replies')).toEqual(['4', '1', '2']);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @file commentThread.ts
+ * @description Renders comments as a tree built from `replyToId`, with
+ * collapsible sub-threads, "load more replies", reply counts and links that
+ * jump to the comment being answered. Used by feed cards and the post page.
+ */
+
+import type { Comment } from '../services/interactions/interactions';
+import { html, raw, type ActionHandlers, type SafeHtml } from '../utils/ui';
+
+/** Order of top-level comments; replies are always oldest first */
+export type CommentSort = 'newest' | 'oldest' | 'replies';
+
+export interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+  /** Number of replies below this comment, at any depth */
+  replyCount: number;
+}
+
+export interface CommentThreadOptions {
+  /** Renders a single comment; the thread adds nesting and controls around it */
+  renderComment: (comment: Comment) => string;
+  /** Deeper replies are shown at this depth instead of indenting further */
+  maxDepth?: number;
+  /** Replies shown per comment before "load more replies" */
+  visibleReplies?: number;
+  sort?: CommentSort;
+}
+
+// Kept across re-renders, so new comments don't reset what the user opened
+const collapsedThreads = new Set<string>();
+const expandedReplies = new Set<string>();
+
+/**
+ * Builds the comment tree, oldest first at every level. Replies whose parent
+ * is missing are shown at the top level.
+ */
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const ids = new Set(comments.map((comment) => String(comment.id)));
+  const nodes = new Map<string, CommentNode>();
+  const roots: CommentNode[] = [];
+
+  const sorted = [...comments].sort(
+    (a, b) => new Date(a.created).getTime() - new Date(b.created).getTime()
+  );
+  sorted.forEach((comment) => {
+    nodes.set(String(comment.id), { comment, replies: [], replyCount: 0 });
+  });
+
+  sorted.forEach((comment) => {
+    const node = nodes.get(String(comment.id))!;
+    const parentId = comment.replyToId != null ? String(comment.replyToId) : '';
+
+    if (parentId && parentId !== String(comment.id) && ids.has(parentId)) {
+      nodes.get(parentId)!.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const countReplies = (node: CommentNode): number =>
+    (node.replyCount = node.replies.reduce(
+      (total, reply) => total + 1 + countReplies(reply),
+      0
+    ));
+  roots.forEach(countReplies);
+
+  return roots;
+}
+
+/**
+ * Orders top-level threads; ties keep the oldest first
+ */
+export function sortCommentTree(
+  nodes: CommentNode[],
+  sort: CommentSort
+): CommentNode[] {
+  const time = (node: CommentNode) => new Date(node.comment.created).getTime();
+
+  return [...nodes].sort((a, b) => {
+    if (sort === 'newest') return time(b) - time(a);
+    if (sort === 'replies' && a.replyCount !== b.replyCount) {
+      return b.replyCount - a.replyCount;
+    }
+    return time(a) - time(b);
+  });
+}
+
+/**
+ * Takes the first top-level threads, each with all of its replies. Posts come
+ * with every comment and the API has no paged comments endpoint, so long
+ * threads are shown in steps rather than loaded a page at a time.
+ * @param limit Top-level comments to take
+ * @returns The comments to show and how many top-level threads are left out
+ */
+export function takeCommentThreads(
+  comments: Comment[],
+  {
+    sort = 'oldest',
+    limit = Infinity,
+  }: {
+    sort?: CommentSort;
+    limit?: number;
+  } = {}
+): { comments: Comment[]; hiddenThreads: number } {
+  const threads = sortCommentTree(buildCommentTree(comments), sort);
+
+  const flatten = (node: CommentNode): Comment[] => [
+    node.comment,
+    ...node.replies.flatMap(flatten),
+  ];
+
+  return {
+    comments: threads.slice(0, limit).flatMap(flatten),
+    hiddenThreads: Math.max(0, threads.length - limit),
+  };
+}
+
+/**
+ * Renders comments as a nested list
+ * @returns HTML string for the thread, empty when there are no comments
+ */
+export function renderCommentThread(
+  comments: Comment[],
+  {
+    renderComment,
+    maxDepth = 3,
+    visibleReplies = 3,
+    sort = 'oldest',
+  }: CommentThreadOptions
+): string {
+  if (comments.length === 0) return '';
+
+  const authors = new Map(
+    comments.map((comment) => [String(comment.id), comment.author?.name])
+  );
+
+  // Replies past `maxDepth` are listed under the deepest indented comment
+  const flatten = (nodes: CommentNode[]): CommentNode[] =>
+    nodes.flatMap((node) => [
+      { ...node, replies: [] },
+      ...flatten(node.replies),
+    ]);
+
+  const renderNode = (
+    node: CommentNode,
+    depth: number,
+    hidden: boolean = false
+  ): SafeHtml => {
+    const { comment } = node;
+    const id = String(comment.id);
+    const parentId = comment.replyToId != null ? String(comment.replyToId) : '';
+    const replies =
+      depth + 1 >= maxDepth ? flatten(node.replies) : node.replies;
+    const isCollapsed = collapsedThreads.has(id);
+    const shownReplies = expandedReplies.has(id)
+      ? replies.length
+      : visibleReplies;
+    const moreLabel = `Load ${formatReplyCount(replies.length - shownReplies, 'more ')}`;
+
+    return html`
+      <li
+        class="comment-thread-item${isCollapsed ? ' collapsed' : ''}"
+        data-thread-comment-id="${id}"
+        data-depth="${depth}"
+        ${hidden ? 'hidden' : ''}
+      >
+        ${parentId && authors.has(parentId)
+          ? html`<button
+              type="button"
+              class="comment-parent-link"
+              data-action="jump-to-comment"
+              data-parent-id="${parentId}"
+            >
+              ↩ Replying to ${authors.get(parentId)}
+            </button>`
+          : ''}
+        ${raw(renderComment(comment))}
+        ${replies.length > 0
+          ? html`
+              <button
+                type="button"
+                class="comment-replies-toggle"
+                aria-expanded="${!isCollapsed}"
+                data-reply-count="${node.replyCount}"
+                data-action="toggle-comment-replies"
+              >
+                ${describeToggle(isCollapsed, node.replyCount)}
+              </button>
+              <ul class="comment-replies">
+                ${replies.map((reply, index) =>
+                  renderNode(reply, depth + 1, index >= shownReplies)
+                )}
+                ${replies.length > shownReplies
+                  ? html`<li class="comment-more-replies">
+                      <button
+                        type="button"
+                        class="comment-more-replies-btn"
+                        data-action="show-more-replies"
+                      >
+                        ${moreLabel}
+                      </button>
+                    </li>`
+                  : ''}
+              </ul>
+            `
+          : ''}
+      </li>
+    `;
+  };
+
+  return html`<ul class="comment-thread">
+    ${sortCommentTree(buildCommentTree(comments), sort).map((node) =>
+      renderNode(node, 0)
+    )}
+  </ul>`.toString();
+}
+
+/**
+ * Opens a comment's replies in full, e.g. before a reply to it is added, so
+ * the new reply isn't hidden behind "load more replies"
+ */
+export function expandCommentThread(commentId: string): void {
+  collapsedThreads.delete(commentId);
+  expandedReplies.add(commentId);
+}
+
+function formatReplyCount(count: number, prefix: string = ''): string {
+  return `${count} ${prefix}${count === 1 ? 'reply' : 'replies'}`;
+}
+
+function describeToggle(isCollapsed: boolean, replyCount: number): string {
+  return `${isCollapsed ? 'Show' : 'Hide'} ${formatReplyCount(replyCount)}`;
+}
+
+function setCollapsed(item: HTMLElement, isCollapsed: boolean): void {
+  const id = item.dataset.threadCommentId || '';
+  if (isCollapsed) {
+    collapsedThreads.add(id);
+  } else {
+    collapsedThreads.delete(id);
+  }
+
+  item.classList.toggle('collapsed', isCollapsed);
+  const toggle = item.querySelector<HTMLElement>(
+    ':scope > .comment-replies-toggle'
+  );
+  if (toggle) {
+    toggle.setAttribute('aria-expanded', String(!isCollapsed));
+    toggle.textContent = describeToggle(
+      isCollapsed,
+      Number(toggle.dataset.replyCount)
+    );
+  }
+}
+
+/**
+ * Collapses or expands the replies below a comment
+ */
+function toggleCommentReplies(toggle: HTMLElement): void {
+  const item = toggle.closest<HTMLElement>('.comment-thread-item');
+  if (item) setCollapsed(item, !item.classList.contains('collapsed'));
+}
+
+/**
+ * Shows the replies hidden behind "load more replies"
+ */
+function showMoreReplies(button: HTMLElement): void {
+  const more = button.closest('.comment-more-replies');
+  const list = more?.parentElement;
+  const item = list?.closest<HTMLElement>('.comment-thread-item');
+  if (!more || !list || !item) return;
+
+  expandedReplies.add(item.dataset.threadCommentId || '');
+  list
+    .querySelectorAll<HTMLElement>(':scope > .comment-thread-item[hidden]')
+    .forEach((item) => (item.hidden = false));
+  more.remove();
+}
+
+/**
+ * Scrolls to the comment being replied to, opening whatever hides it
+ */
+function jumpToComment(link: HTMLElement): void {
+  const target = link
+    .closest('.comment-thread')
+    ?.querySelector<HTMLElement>(
+      `[data-thread-comment-id="${link.dataset.parentId}"]`
+    );
+  if (!target) return;
+
+  let item: HTMLElement | null = target;
+  while (item) {
+    item.hidden = false;
+    if (item !== target) setCollapsed(item, false);
+    item = item.parentElement?.closest('.comment-thread-item') ?? null;
+  }
+
+  target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  target.classList.add('highlighted');
+  setTimeout(() => target.classList.remove('highlighted'), 1500);
+}
+
+/** Handlers for the thread's toggles and links, for `delegateActions` */
+export const commentThreadActions: ActionHandlers = {
+  click: {
+    'toggle-comment-replies': toggleCommentReplies,
+    'show-more-replies': showMoreReplies,
+    'jump-to-comment': jumpToComment,
+  },
+};
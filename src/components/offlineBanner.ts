@@ -0,0 +1,86 @@
+/**
+ * @file offlineBanner.ts
+ * @description Banner that tells the user when they are offline, how many
+ * writes are waiting to be sent, and which queued writes the server refused.
+ */
+
+import { store, selectNetwork } from '../store';
+import type { NetworkState } from '../types';
+import { html } from '../utils/ui';
+
+const BANNER_ID = 'offline-banner';
+
+/**
+ * Builds the banner's content for the current network state.
+ * @returns HTML string, empty when there is nothing to report
+ */
+export function renderOfflineBanner(network: NetworkState): string {
+  const { isOnline, pendingWrites, conflicts } = network;
+  const changes = `${pendingWrites} change${pendingWrites === 1 ? '' : 's'}`;
+  const messages: string[] = [];
+
+  if (!isOnline) {
+    messages.push(`
+      <p class="offline-banner-message">
+        📴 You're offline. Showing the posts and profiles you last loaded.
+        ${pendingWrites > 0 ? `${changes} will be sent when you reconnect.` : ''}
+      </p>
+    `);
+  } else if (pendingWrites > 0) {
+    messages.push(
+      `<p class="offline-banner-message">🔄 Sending ${changes} made while offline…</p>`
+    );
+  }
+
+  if (conflicts.length > 0) {
+    messages.push(`
+      <div class="offline-banner-conflicts">
+        <p class="offline-banner-message">
+          ⚠️ Some changes made while offline could not be sent:
+        </p>
+        <ul>
+          ${conflicts
+            .map(
+              (conflict) =>
+                html`<li>
+                  <strong>${conflict.description}</strong>: ${conflict.message}
+                </li>`
+            )
+            .join('')}
+        </ul>
+        <button type="button" class="btn btn-secondary" data-dismiss-conflicts>Dismiss</button>
+      </div>
+    `);
+  }
+
+  return messages.join('');
+}
+
+function updateOfflineBanner(network: NetworkState): void {
+  let banner = document.getElementById(BANNER_ID);
+  if (!banner) {
+    banner = document.createElement('div');
+    banner.id = BANNER_ID;
+    banner.className = 'offline-banner';
+    banner.setAttribute('role', 'status');
+    document.body.append(banner);
+  }
+
+  banner.innerHTML = renderOfflineBanner(network);
+  banner.hidden = banner.innerHTML === '';
+  banner.classList.toggle('offline', !network.isOnline);
+
+  banner
+    .querySelector('[data-dismiss-conflicts]')
+    ?.addEventListener('click', () => {
+      store.dispatch({ type: 'outbox/conflictsDismissed' });
+    });
+}
+
+/**
+ * Shows the banner and keeps it in sync with the store's network state.
+ */
+export function initOfflineBanner(): void {
+  updateOfflineBanner(selectNetwork(store.getState()));
+  store.select(selectNetwork, updateOfflineBanner);
+}
@@ -5,7 +5,10 @@
  */
 
 import type { NoroffPost } from "../services/posts/posts";
-import { getLocalItem } from "../utils/storage";
+import { getCurrentUser } from "../utils/auth";
+import { renderReactionChips } from "./reactions";
+import { renderRichText } from "../utils/richText";
+import { html, raw, safeUrl } from "../utils/ui";
 
 /**
  * Creates a comprehensive post card HTML with full interaction capabilities
@@ -18,7 +21,6 @@ export default function postCard(
   animationDelay: number = 0
 ): string {
   const {
-    id,
     title = "",
     body = "",
     tags = [],
@@ -26,39 +28,41 @@ export default function postCard(
     created,
     author = { name: "Unknown", email: "unknown@mail.com" },
     _count = { comments: 0, reactions: 0 },
-    reactions = [],
   } = post;
 
+  // Only ever a number in the element ids and data attributes below
+  const id = Number(post.id);
+
   // Check if current user owns this post
-  const currentUser = getLocalItem("user");
+  const currentUser = getCurrentUser().user;
   const isOwner = currentUser && author.name === currentUser;
 
   // Fallback avatar
-  const avatarUrl =
-    author?.avatar?.url || "https://via.placeholder.com/50?text=U";
+  const avatarUrl = safeUrl(
+    author?.avatar?.url,
+    "https://via.placeholder.com/50?text=U"
+  );
   const avatarAlt = author?.avatar?.alt || author?.name || "User";
+  const authorName = author?.name || "Unknown";
+  const mediaUrl = safeUrl(media?.url);
 
   // Format the date
   const createdDate = created ? new Date(created) : new Date();
   const timeAgo = getTimeAgo(createdDate);
 
-  // Reaction count
-  const reactionCount =
-    reactions.reduce((total, reaction) => total + reaction.count, 0) || 0;
-
   // Truncate text
   const truncatedBody =
     body.length > 120 ? body.substring(0, 120) + "..." : body;
   const truncatedTitle =
     title.length > 50 ? title.substring(0, 50) + "..." : title;
 
-  return `
+  return html`
     <article class="post-card" data-post-id="${id}" id="post-${id}" style="animation-delay: ${animationDelay}s">
       ${
-        media?.url
-          ? `
+        mediaUrl
+          ? html`
         <div class="post-media-preview">
-          <img src="${media.url}" alt="${media.alt || 'Post image'}" class="post-image-preview">
+          <img src="${mediaUrl}" alt="${media?.alt || 'Post image'}" class="post-image-preview">
         </div>
       `
           : ''
@@ -67,16 +71,16 @@ export default function postCard(
       <header class="post-header-compact">
         <div class="author-info-compact">
           <div class="author-avatar-small" 
-                 onclick="navigateToProfile('${author?.name || 'Unknown'}')" 
+                 data-link-profile="${authorName}" 
                  style="cursor: pointer;">
                 <img src="${avatarUrl}" alt="${avatarAlt}" class="avatar-img-small">
             </div>
           <div class="author-details-compact">
               <h4 class="author-name-compact">
-                <a href="/profile?user=${author?.name || 'Unknown'}" 
+                <a href="/profile/${encodeURIComponent(authorName)}" 
                   class="author-link" 
-                  onclick="event.preventDefault(); navigateToProfile('${author?.name || 'Unknown'}')">
-                  ${author?.name || 'Unknown'}
+                  data-link-profile="${authorName}">
+                  ${authorName}
                  </a>
               </h4>
               <p class="post-time-compact">${timeAgo}</p>
@@ -85,10 +89,10 @@ export default function postCard(
         
         ${
           isOwner
-            ? `
+            ? html`
         <div class="post-owner-controls">
           <div class="dropdown">
-            <button class="post-menu-btn" onclick="togglePostMenu(${id})" aria-label="Post options">
+            <button class="post-menu-btn" data-action="toggle-post-menu" data-post-id="${id}" aria-label="Post options">
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                 <circle cx="12" cy="12" r="1"></circle>
                 <circle cx="12" cy="5" r="1"></circle>
@@ -96,14 +100,14 @@ export default function postCard(
               </svg>
             </button>
             <div class="dropdown-content post-menu" id="postMenu${id}">
-              <a href="#" class="dropdown-item" onclick="editPost(${id}); return false;">
+              <a href="#" class="dropdown-item" data-action="edit-post" data-post-id="${id}">
                 <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                   <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
                   <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
                 </svg>
                 Edit Post
               </a>
-              <a href="#" class="dropdown-item danger" onclick="deletePost(${id}); return false;">
+              <a href="#" class="dropdown-item danger" data-action="delete-post" data-post-id="${id}">
                 <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                   <polyline points="3,6 5,6 21,6"></polyline>
                   <path d="M19,6v14a2,2,0,0,1-2,2H7a2,2,0,0,1-2-2V6m3,0V4a2,2,0,0,1,2-2h4a2,2,0,0,1,2,2V6"></path>
@@ -119,71 +123,49 @@ export default function postCard(
       </header>
 
       <div class="post-content-compact">
-        ${truncatedTitle ? `<h3 class="post-title-compact">${truncatedTitle}</h3>` : ''}
+        ${truncatedTitle ? html`<h3 class="post-title-compact">${truncatedTitle}</h3>` : ''}
         <div class="post-text-compact post-body">
-          <p>${truncatedBody}</p>
+          ${raw(renderRichText(truncatedBody))}
         </div>
         ${
           tags.length > 0
-            ? `<div class="post-tags-compact">
-                ${tags
-                  .slice(0, 2)
-                  .map((tag) => `<span class="tag-compact">#${tag}</span>`)
-                  .join('')}
-                ${
-                  tags.length > 2
-                    ? `<span class="tag-more">+${tags.length - 2}</span>`
-                    : ''
-                }
-              </div>`
+            ? html`<div class="post-tags-compact">${raw(renderPostTags(tags))}</div>`
             : ''
         }
       </div>
 
       <footer class="post-actions-compact">
         <div class="action-buttons-compact">
-          <!-- Like Button with Reactions -->
-          <div style="position: relative;">
-            <button 
-              class="action-btn-compact like-btn" 
-              data-post-id="${id}"
-              onclick="toggleReaction(${id}, '❤️')"
-              onmouseenter="showReactionsModal(${id})"
-              onmouseleave="hideReactionsModal(${id})"
-            >
-              ❤️ <span class="action-count-compact">${reactionCount}</span>
-            </button>
-            
-            <!-- Reactions Modal -->
-            <div class="reactions-modal" id="reactions-${id}" style="display: none;">
-              <div class="reactions-list">
-                ${['👍', '❤️', '😂', '😮', '😢', '😡']
-                  .map(
-                    (emoji) =>
-                      `<button class="reaction-btn" onclick="selectReaction(${id}, '${emoji}')">${emoji}</button>`
-                  )
-                  .join('')}
-              </div>
-            </div>
-          </div>
-
           <!-- Comment Button -->
-          <button class="action-btn-compact comment-btn" data-post-id="${id}" onclick="toggleComments(${id})">
+          <button class="action-btn-compact comment-btn" data-action="toggle-comments" data-post-id="${id}">
             💬 <span class="action-count-compact">${_count.comments}</span>
           </button>
 
           <!-- View Full Post Button -->
-          <button class="action-btn-compact view-btn" data-post-id="${id}" onclick="viewFullPost(${id})">
+          <a href="/post/${id}" class="action-btn-compact view-btn" data-post-id="${id}" data-link-post="${id}">
             👁 <span class="action-label">View</span>
+          </a>
+
+          <!-- Copy Link Button -->
+          <button class="action-btn-compact copy-link-btn" data-action="copy-post-link" data-post-id="${id}" aria-label="Copy link to post">
+            🔗 <span class="action-label">Copy link</span>
           </button>
         </div>
       </footer>
 
+      <!-- Per-symbol reactions -->
+      ${raw(renderReactionChips(post, currentUser))}
+
       <!-- Comments Section -->
 <div class="comments-section" id="comments-${id}" style="display: none;">
   <div class="comments-header">
     <h4>Comments</h4>
-    <button class="close-comments-btn" onclick="toggleComments(${id})">×</button>
+    <select class="comment-sort" aria-label="Sort comments" data-change-action="sort-comments" data-post-id="${id}">
+      <option value="oldest">Oldest first</option>
+      <option value="newest">Newest first</option>
+      <option value="replies">Most replies</option>
+    </select>
+    <button class="close-comments-btn" data-action="toggle-comments" data-post-id="${id}">×</button>
   </div>
   <div class="comments-list" id="comments-list-${id}">
     <!-- Comments will be loaded here -->
@@ -196,9 +178,12 @@ export default function postCard(
         class="comment-input" 
         placeholder="Write a comment..." 
         maxlength="280"
-        onkeypress="if(event.key === 'Enter') submitComment(${id})"
+        data-post-id="${id}"
+        data-input-action="count-characters"
+        data-keydown-action="submit-comment"
       >
-      <button class="comment-submit-btn" onclick="submitComment(${id})">
+      <span class="char-counter" aria-live="polite">0/280</span>
+      <button class="comment-submit-btn" data-action="submit-comment" data-post-id="${id}">
         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
           <line x1="22" y1="2" x2="11" y2="13"></line>
           <polygon points="22,2 15,22 11,13 2,9 22,2"></polygon>
@@ -208,7 +193,28 @@ export default function postCard(
   </div>
 </div>
     </article>
-  `;
+  `.toString();
+}
+
+/**
+ * Renders clickable tag chips linking to the tag's page
+ * @param tags The post's tags
+ * @param visibleCount How many chips to show before collapsing into "+N"
+ * @returns HTML string for the tag chips
+ */
+export function renderPostTags(tags: string[], visibleCount: number = 2): string {
+  const chips = tags
+    .slice(0, visibleCount)
+    .map(
+      (tag) =>
+        html`<a href="/tags/${encodeURIComponent(tag)}" class="tag-compact" data-link-tag="${tag}">#${tag}</a>`
+    );
+
+  return html`${chips}${
+    tags.length > visibleCount
+      ? html`<span class="tag-more">+${tags.length - visibleCount}</span>`
+      : ""
+  }`.toString();
 }
 
 /**
@@ -216,7 +222,7 @@ export default function postCard(
  * @param date The date to calculate from
  * @returns Formatted time ago string
  */
-function getTimeAgo(date: Date): string {
+export function getTimeAgo(date: Date): string {
   const now = new Date();
   const diffInMs = now.getTime() - date.getTime();
   const diffInSeconds = Math.floor(diffInMs / 1000);
@@ -230,30 +236,3 @@ function getTimeAgo(date: Date): string {
   if (diffInDays < 7) return `${diffInDays}d ago`;
   return date.toLocaleDateString();
 }
-
-/**
- * Show reactions modal on hover
- */
-function showReactionsModal(postId: number): void {
-  const modal = document.getElementById(`reactions-${postId}`);
-  if (modal) {
-    modal.style.display = "block";
-  }
-}
-
-/**
- * Hide reactions modal when not hovering
- */
-function hideReactionsModal(postId: number): void {
-  // Add a small delay to allow clicking on reactions
-  setTimeout(() => {
-    const modal = document.getElementById(`reactions-${postId}`);
-    if (modal && !modal.matches(":hover")) {
-      modal.style.display = "none";
-    }
-  }, 200);
-}
-
-// Make functions globally available
-(window as any).showReactionsModal = showReactionsModal;
-(window as any).hideReactionsModal = hideReactionsModal;
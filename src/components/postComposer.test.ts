@@ -0,0 +1,60 @@
+/**
+ * @file postComposer.test.ts
+ * @description Unit tests for post draft validation and tag handling.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeTag,
+  POST_LIMITS,
+  validatePostDraft,
+  type PostDraft,
+} from './postComposer';
+
+const draft: PostDraft = {
+  title: 'Hello',
+  body: '',
+  tags: [],
+  imageUrl: '',
+  imageAlt: '',
+};
+
+describe('validatePostDraft', () => {
+  it('accepts a post with only a title', () => {
+    expect(validatePostDraft(draft)).toEqual({});
+  });
+
+  it('requires a title', () => {
+    expect(validatePostDraft({ ...draft, title: '   ' })).toHaveProperty(
+      'title'
+    );
+  });
+
+  it('enforces the length limits', () => {
+    const errors = validatePostDraft({
+      ...draft,
+      title: 'a'.repeat(POST_LIMITS.title + 1),
+      body: 'a'.repeat(POST_LIMITS.body + 1),
+      imageUrl: 'https://example.com/a.jpg',
+      imageAlt: 'a'.repeat(POST_LIMITS.imageAlt + 1),
+    });
+
+    expect(Object.keys(errors).sort()).toEqual(['body', 'imageAlt', 'title']);
+  });
+
+  it('only accepts http(s) image URLs', () => {
+    expect(
+      validatePostDraft({ ...draft, imageUrl: 'javascript:alert(1)' })
+    ).toHaveProperty('imageUrl');
+    expect(
+      validatePostDraft({ ...draft, imageUrl: 'example.com/a.jpg' })
+    ).toHaveProperty('imageUrl');
+  });
+});
+
+describe('normalizeTag', () => {
+  it('strips hashes and joins words', () => {
+    expect(normalizeTag('  #Web Dev ')).toBe('web-dev');
+    expect(normalizeTag('##')).toBe('');
+  });
+});
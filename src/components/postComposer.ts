@@ -0,0 +1,519 @@
+/**
+ * @file postComposer.ts
+ * @description Create post box with validation against the Noroff limits,
+ * tag chips with suggestions from recently seen tags, an image preview that
+ * detects broken links, a live preview of the post card and drafts that are
+ * saved as you type and restored after a reload.
+ */
+
+import postCard from './postCard';
+import { getRecentTags, type NoroffPost } from '../services/posts/posts';
+import { getCurrentUser } from '../utils/auth';
+import { debounce } from '../utils/debounce';
+import { getLocalItem, removeLocalItem, setLocalItem } from '../utils/storage';
+import { html } from '../utils/ui';
+
+export interface PostDraft {
+  title: string;
+  body: string;
+  tags: string[];
+  imageUrl: string;
+  imageAlt: string;
+}
+
+export type PostDraftErrors = Partial<Record<keyof PostDraft, string>>;
+
+// https://docs.noroff.dev/docs/v2/social/posts
+export const POST_LIMITS = {
+  title: 280,
+  body: 280,
+  imageAlt: 120,
+};
+
+const DRAFT_KEY_PREFIX = 'postDraft';
+
+const EMPTY_DRAFT: PostDraft = {
+  title: '',
+  body: '',
+  tags: [],
+  imageUrl: '',
+  imageAlt: '',
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 Validation                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Checks a draft against the limits the API enforces
+ * @returns A message per invalid field, empty when the draft can be posted
+ */
+export function validatePostDraft(draft: PostDraft): PostDraftErrors {
+  const errors: PostDraftErrors = {};
+  const title = draft.title.trim();
+
+  if (!title) {
+    errors.title = 'Give your post a title.';
+  } else if (title.length > POST_LIMITS.title) {
+    errors.title = `Titles can be at most ${POST_LIMITS.title} characters.`;
+  }
+
+  if (draft.body.trim().length > POST_LIMITS.body) {
+    errors.body = `Posts can be at most ${POST_LIMITS.body} characters.`;
+  }
+
+  if (draft.imageUrl.trim() && !isHttpUrl(draft.imageUrl.trim())) {
+    errors.imageUrl = 'Use a full image address starting with https://';
+  }
+
+  if (draft.imageAlt.trim().length > POST_LIMITS.imageAlt) {
+    errors.imageAlt = `Alt text can be at most ${POST_LIMITS.imageAlt} characters.`;
+  }
+
+  return errors;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns typed text into a tag: no leading `#`, no spaces or commas
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[\s,]+/g, '-')
+    .toLowerCase();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Drafts                                   */
+/* -------------------------------------------------------------------------- */
+
+function getDraftKey(): string {
+  return `${DRAFT_KEY_PREFIX}:${getCurrentUser().user || ''}`;
+}
+
+function loadDraft(): PostDraft | null {
+  const draft = getLocalItem(getDraftKey());
+  return draft && typeof draft === 'object'
+    ? { ...EMPTY_DRAFT, ...draft }
+    : null;
+}
+
+function saveDraft(draft: PostDraft): void {
+  if (isDraftEmpty(draft)) {
+    removeLocalItem(getDraftKey());
+  } else {
+    setLocalItem(getDraftKey(), draft);
+  }
+}
+
+function isDraftEmpty(draft: PostDraft): boolean {
+  return (
+    !draft.title.trim() &&
+    !draft.body.trim() &&
+    draft.tags.length === 0 &&
+    !draft.imageUrl.trim() &&
+    !draft.imageAlt.trim()
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Markup                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renders the collapsed create post box
+ * @returns HTML string for the composer
+ */
+export function renderPostComposer(): string {
+  return `
+    <section class="create-post-box collapsed" id="create-post-box">
+      <form id="create-post-form" class="create-post-form" novalidate>
+
+        <!-- Collapsed View -->
+        <div class="collapsed-view">
+          <input type="text" id="collapsed-input" placeholder="What's on your mind?" readonly />
+        </div>
+
+        <!-- Expanded View (hidden until clicked) -->
+        <div class="expanded-fields" style="display: none;">
+          <h2>Create a Post</h2>
+          <div class="composer-layout">
+            <div class="composer-fields">
+              ${renderField('title', 'post-title', 'Title', `<input type="text" id="post-title" name="title" placeholder="Enter a title" maxlength="${POST_LIMITS.title}" required />`, POST_LIMITS.title)}
+              ${renderField('body', 'post-body', 'Body', `<textarea id="post-body" name="body" rows="3" placeholder="What's on your mind?" maxlength="${POST_LIMITS.body}"></textarea>`, POST_LIMITS.body)}
+
+              <div class="form-group">
+                <label for="post-tag-input">Tags</label>
+                <div class="tag-chip-input">
+                  <ul class="tag-chips" id="post-tag-chips"></ul>
+                  <input type="text" id="post-tag-input" placeholder="Add a tag and press Enter" list="post-tag-suggestions" autocomplete="off" />
+                </div>
+                <datalist id="post-tag-suggestions"></datalist>
+              </div>
+
+              ${renderField('imageUrl', 'post-image-url', 'Image URL', '<input type="url" id="post-image-url" name="imageUrl" placeholder="https://example.com/image.jpg" />')}
+              <div class="composer-image-preview" id="post-image-preview" hidden></div>
+
+              ${renderField('imageAlt', 'post-image-alt', 'Image Alt Text', `<input type="text" id="post-image-alt" name="imageAlt" placeholder="Describe the image" maxlength="${POST_LIMITS.imageAlt}" />`, POST_LIMITS.imageAlt)}
+            </div>
+
+            <div class="composer-preview">
+              <p class="composer-preview-label">Preview</p>
+              <!-- Inert so the preview card's buttons do nothing -->
+              <div id="post-preview" inert></div>
+            </div>
+          </div>
+
+          <div class="form-actions">
+            <button type="submit" class="btn btn-primary">Post</button>
+            <button type="button" id="cancel-post-btn" class="btn btn-secondary">Cancel</button>
+          </div>
+          <p class="composer-draft-status" id="post-draft-status" aria-live="polite"></p>
+        </div>
+      </form>
+    </section>
+  `;
+}
+
+function renderField(
+  name: keyof PostDraft,
+  id: string,
+  label: string,
+  control: string,
+  limit?: number
+): string {
+  return `
+    <div class="form-group" data-field="${name}">
+      <label for="${id}">${label}</label>
+      ${control}
+      <div class="composer-field-meta">
+        <span class="composer-field-error" role="alert"></span>
+        ${limit ? `<span class="char-counter">0/${limit}</span>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Behaviour                                  */
+/* -------------------------------------------------------------------------- */
+
+let tags: string[] = [];
+// Bumped per change so a slow image check can't overwrite a newer one
+let imageCheck = 0;
+
+function getField<T extends HTMLElement>(id: string): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+/**
+ * Reads the draft from the composer's fields
+ */
+export function readPostDraft(): PostDraft {
+  return {
+    title: getField<HTMLInputElement>('post-title')?.value || '',
+    body: getField<HTMLTextAreaElement>('post-body')?.value || '',
+    tags: [...tags],
+    imageUrl: getField<HTMLInputElement>('post-image-url')?.value.trim() || '',
+    imageAlt: getField<HTMLInputElement>('post-image-alt')?.value || '',
+  };
+}
+
+function fillDraft(draft: PostDraft): void {
+  const values: Record<string, string> = {
+    'post-title': draft.title,
+    'post-body': draft.body,
+    'post-image-url': draft.imageUrl,
+    'post-image-alt': draft.imageAlt,
+  };
+  Object.entries(values).forEach(([id, value]) => {
+    const field = getField<HTMLInputElement>(id);
+    if (field) field.value = value;
+  });
+
+  tags = [...draft.tags];
+  renderTagChips();
+}
+
+function setExpanded(isExpanded: boolean): void {
+  const postBox = getField('create-post-box');
+  const collapsedInput = getField('collapsed-input');
+  const expandedFields =
+    postBox?.querySelector<HTMLElement>('.expanded-fields');
+  if (!postBox || !collapsedInput || !expandedFields) return;
+
+  postBox.classList.toggle('expanded', isExpanded);
+  postBox.classList.toggle('collapsed', !isExpanded);
+  expandedFields.style.display = isExpanded ? 'block' : 'none';
+  collapsedInput.style.display = isExpanded ? 'none' : 'block';
+}
+
+function showFieldErrors(errors: PostDraftErrors): void {
+  document
+    .querySelectorAll<HTMLElement>('#create-post-form [data-field]')
+    .forEach((group) => {
+      const message = errors[group.dataset.field as keyof PostDraft] || '';
+      const error = group.querySelector('.composer-field-error');
+      if (error) error.textContent = message;
+      group.classList.toggle('has-error', !!message);
+    });
+}
+
+function updateCounters(): void {
+  document
+    .querySelectorAll<HTMLElement>('#create-post-form [data-field]')
+    .forEach((group) => {
+      const field = group.querySelector<HTMLInputElement>('input, textarea');
+      const counter = group.querySelector('.char-counter');
+      if (!field || !counter || field.maxLength < 0) return;
+
+      const { length } = field.value;
+      counter.textContent = `${length}/${field.maxLength}`;
+      counter.classList.toggle('near-limit', length >= field.maxLength - 20);
+    });
+}
+
+function renderTagChips(): void {
+  const chips = getField('post-tag-chips');
+  if (chips) {
+    chips.innerHTML = html`${tags.map(
+      (tag) => html`
+        <li class="tag-chip">
+          #${tag}
+          <button
+            type="button"
+            class="tag-chip-remove"
+            data-remove-tag="${tag}"
+            aria-label="Remove tag ${tag}"
+          >
+            ×
+          </button>
+        </li>
+      `
+    )}`.toString();
+  }
+
+  // Suggest recent tags that aren't on the post yet
+  const suggestions = getField('post-tag-suggestions');
+  if (suggestions) {
+    suggestions.innerHTML = html`${getRecentTags()
+      .filter((tag) => !tags.includes(tag))
+      .map((tag) => html`<option value="${tag}"></option>`)}`.toString();
+  }
+}
+
+function addTags(value: string): void {
+  const added = value.split(',').map(normalizeTag).filter(Boolean);
+  tags = [...new Set([...tags, ...added])];
+  renderTagChips();
+}
+
+function renderPreview(draft: PostDraft): void {
+  const preview = getField('post-preview');
+  if (!preview) return;
+
+  if (isDraftEmpty(draft)) {
+    preview.innerHTML =
+      '<p class="composer-preview-empty">Start typing to see your post.</p>';
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const post: NoroffPost = {
+    id: 0,
+    title: draft.title.trim(),
+    body: draft.body.trim(),
+    tags: draft.tags,
+    media:
+      draft.imageUrl && isHttpUrl(draft.imageUrl)
+        ? { url: draft.imageUrl, alt: draft.imageAlt }
+        : undefined,
+    created: now,
+    updated: now,
+    author: { name: getCurrentUser().user || 'You', email: '' },
+    _count: { comments: 0, reactions: 0 },
+    reactions: [],
+  };
+  preview.innerHTML = postCard(post);
+}
+
+/**
+ * Loads the image URL in the background and says whether it works
+ */
+function checkImage(url: string): void {
+  const container = getField('post-image-preview');
+  if (!container) return;
+
+  const check = ++imageCheck;
+  if (!url || !isHttpUrl(url)) {
+    container.hidden = true;
+    container.innerHTML = '';
+    return;
+  }
+
+  container.hidden = false;
+  container.className = 'composer-image-preview loading';
+  container.textContent = 'Checking image…';
+
+  const image = new Image();
+  image.onload = () => {
+    if (check !== imageCheck) return;
+    container.className = 'composer-image-preview';
+    container.innerHTML = '';
+    image.alt = 'Image preview';
+    container.append(image);
+  };
+  image.onerror = () => {
+    if (check !== imageCheck) return;
+    container.className = 'composer-image-preview broken';
+    container.textContent =
+      "⚠️ This image couldn't be loaded. Check the link before posting.";
+  };
+  image.src = url;
+}
+
+/**
+ * Refreshes everything derived from the fields and saves the draft
+ */
+function handleDraftChange(): void {
+  const draft = readPostDraft();
+  updateCounters();
+  renderPreview(draft);
+  saveDraft(draft);
+
+  const status = getField('post-draft-status');
+  if (status) {
+    status.textContent = isDraftEmpty(draft) ? '' : 'Draft saved';
+  }
+
+  // Only show errors for fields that have been touched
+  const errors = validatePostDraft(draft);
+  if (!draft.title.trim()) delete errors.title;
+  showFieldErrors(errors);
+}
+
+/**
+ * Wires up the composer rendered by `renderPostComposer`, restoring any
+ * saved draft. `onSubmit` is called with a valid draft.
+ */
+export function initPostComposer(
+  onSubmit: (draft: PostDraft, form: HTMLFormElement) => void
+): void {
+  const form = getField<HTMLFormElement>('create-post-form');
+  if (!form) return;
+
+  const saveAfterTyping = debounce(handleDraftChange, 400);
+  const tagInput = getField<HTMLInputElement>('post-tag-input');
+
+  getField('collapsed-input')?.addEventListener('click', () => {
+    setExpanded(true);
+    getField('post-title')?.focus();
+  });
+
+  getField('cancel-post-btn')?.addEventListener('click', resetPostComposer);
+
+  form.addEventListener('input', (event) => {
+    if (event.target === tagInput) return;
+    updateCounters();
+    saveAfterTyping();
+  });
+
+  getField('post-image-url')?.addEventListener(
+    'input',
+    debounce((event: Event) => {
+      checkImage((event.target as HTMLInputElement).value.trim());
+    }, 500)
+  );
+
+  tagInput?.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTags(tagInput.value);
+      tagInput.value = '';
+      handleDraftChange();
+    } else if (event.key === 'Backspace' && !tagInput.value && tags.length) {
+      tags = tags.slice(0, -1);
+      renderTagChips();
+      handleDraftChange();
+    }
+  });
+
+  // Picking a suggestion fills the input without a key press
+  tagInput?.addEventListener('change', () => {
+    if (!tagInput.value.trim()) return;
+    addTags(tagInput.value);
+    tagInput.value = '';
+    handleDraftChange();
+  });
+
+  getField('post-tag-chips')?.addEventListener('click', (event) => {
+    const button = (event.target as Element).closest<HTMLElement>(
+      '[data-remove-tag]'
+    );
+    if (!button) return;
+
+    tags = tags.filter((tag) => tag !== button.dataset.removeTag);
+    renderTagChips();
+    handleDraftChange();
+  });
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+
+    // Text left in the tag input still counts as a tag
+    if (tagInput?.value.trim()) {
+      addTags(tagInput.value);
+      tagInput.value = '';
+    }
+
+    const draft = readPostDraft();
+    const errors = validatePostDraft(draft);
+    showFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      form
+        .querySelector<HTMLElement>('.has-error input, .has-error textarea')
+        ?.focus();
+      return;
+    }
+
+    onSubmit(draft, form);
+  });
+
+  // Pick up where the user left off
+  const draft = loadDraft();
+  fillDraft(draft || EMPTY_DRAFT);
+  updateCounters();
+  renderPreview(draft || EMPTY_DRAFT);
+  if (draft) {
+    setExpanded(true);
+    checkImage(draft.imageUrl);
+    const status = getField('post-draft-status');
+    if (status) status.textContent = 'Draft restored';
+  }
+}
+
+/**
+ * Clears the composer and its saved draft, and collapses it
+ */
+export function resetPostComposer(): void {
+  getField<HTMLFormElement>('create-post-form')?.reset();
+  fillDraft(EMPTY_DRAFT);
+  saveDraft(EMPTY_DRAFT);
+  showFieldErrors({});
+  updateCounters();
+  renderPreview(EMPTY_DRAFT);
+  checkImage('');
+
+  const status = getField('post-draft-status');
+  if (status) status.textContent = '';
+  setExpanded(false);
+}
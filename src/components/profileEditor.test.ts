@@ -0,0 +1,92 @@
+/**
+ * @file profileEditor.test.ts
+ * @description Unit tests for profile draft validation and the edit panel.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  PROFILE_LIMITS,
+  readProfileDraft,
+  renderProfileEditor,
+  toProfileChanges,
+  validateProfileDraft,
+  type ProfileDraft,
+} from './profileEditor';
+import type { UserProfile } from '../services/profiles/profiles';
+
+const draft: ProfileDraft = {
+  bio: '',
+  avatarUrl: '',
+  avatarAlt: '',
+  bannerUrl: '',
+  bannerAlt: '',
+};
+
+describe('validateProfileDraft', () => {
+  it('accepts an empty draft', () => {
+    expect(validateProfileDraft(draft)).toEqual({});
+  });
+
+  it('enforces the length limits', () => {
+    const errors = validateProfileDraft({
+      ...draft,
+      bio: 'a'.repeat(PROFILE_LIMITS.bio + 1),
+      avatarUrl: 'https://example.com/a.jpg',
+      avatarAlt: 'a'.repeat(PROFILE_LIMITS.imageAlt + 1),
+    });
+
+    expect(Object.keys(errors).sort()).toEqual(['avatarAlt', 'bio']);
+  });
+
+  it('only accepts http(s) image URLs', () => {
+    expect(
+      validateProfileDraft({ ...draft, avatarUrl: 'javascript:alert(1)' })
+    ).toHaveProperty('avatarUrl');
+    expect(
+      validateProfileDraft({ ...draft, bannerUrl: 'example.com/b.jpg' })
+    ).toHaveProperty('bannerUrl');
+  });
+
+  it('asks for an image URL to go with alt text', () => {
+    expect(
+      validateProfileDraft({ ...draft, bannerAlt: 'Mountains' })
+    ).toHaveProperty('bannerUrl');
+  });
+});
+
+describe('toProfileChanges', () => {
+  it('leaves out images without a URL', () => {
+    expect(
+      toProfileChanges({
+        ...draft,
+        bio: ' Hello ',
+        avatarUrl: 'https://example.com/a.jpg',
+        avatarAlt: ' Me ',
+      })
+    ).toEqual({
+      bio: 'Hello',
+      avatar: { url: 'https://example.com/a.jpg', alt: 'Me' },
+    });
+  });
+});
+
+describe('renderProfileEditor', () => {
+  it('fills the fields in with the current profile', () => {
+    document.body.innerHTML = renderProfileEditor({
+      name: 'ada',
+      bio: '<b>Hi</b>',
+      avatar: { url: 'https://example.com/a.jpg', alt: 'Ada' },
+      banner: { url: 'javascript:alert(1)', alt: '' },
+    } as UserProfile);
+    const form = document.querySelector('form')!;
+
+    expect(readProfileDraft(form)).toEqual({
+      bio: '<b>Hi</b>',
+      avatarUrl: 'https://example.com/a.jpg',
+      avatarAlt: 'Ada',
+      bannerUrl: '',
+      bannerAlt: '',
+    });
+    expect(form.querySelector('b')).toBeNull();
+  });
+});
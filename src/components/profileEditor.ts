@@ -0,0 +1,370 @@
+/**
+ * @file profileEditor.ts
+ * @description Panel for editing one's own bio, avatar and banner, with a
+ * live preview of the images and the same limits the API enforces.
+ */
+
+import type {
+  ProfileChanges,
+  UserProfile,
+} from '../services/profiles/profiles';
+import { html, safeUrl, type SafeHtml } from '../utils/ui';
+
+export interface ProfileDraft {
+  bio: string;
+  avatarUrl: string;
+  avatarAlt: string;
+  bannerUrl: string;
+  bannerAlt: string;
+}
+
+export type ProfileDraftErrors = Partial<Record<keyof ProfileDraft, string>>;
+
+type ProfileImage = 'avatar' | 'banner';
+
+// https://docs.noroff.dev/docs/v2/social/profiles
+export const PROFILE_LIMITS = {
+  bio: 160,
+  imageAlt: 120,
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 Validation                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Checks a draft against the limits the API enforces
+ * @returns A message per invalid field, empty when the draft can be saved
+ */
+export function validateProfileDraft(draft: ProfileDraft): ProfileDraftErrors {
+  const errors: ProfileDraftErrors = {};
+
+  if (draft.bio.trim().length > PROFILE_LIMITS.bio) {
+    errors.bio = `Bios can be at most ${PROFILE_LIMITS.bio} characters.`;
+  }
+
+  (['avatar', 'banner'] as const).forEach((image) => {
+    const url = draft[`${image}Url`].trim();
+    const alt = draft[`${image}Alt`].trim();
+
+    if (url && !isHttpUrl(url)) {
+      errors[`${image}Url`] = 'Use a full image address starting with https://';
+    }
+
+    if (alt.length > PROFILE_LIMITS.imageAlt) {
+      errors[`${image}Alt`] =
+        `Alt text can be at most ${PROFILE_LIMITS.imageAlt} characters.`;
+    } else if (alt && !url) {
+      errors[`${image}Url`] = 'Add an image address to go with the alt text.';
+    }
+  });
+
+  return errors;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns a valid draft into the changes to save. An image without an address
+ * is left out, so the current one is kept.
+ */
+export function toProfileChanges(draft: ProfileDraft): ProfileChanges {
+  const changes: ProfileChanges = { bio: draft.bio.trim() };
+
+  (['avatar', 'banner'] as const).forEach((image) => {
+    const url = draft[`${image}Url`].trim();
+    if (url) changes[image] = { url, alt: draft[`${image}Alt`].trim() };
+  });
+
+  return changes;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Markup                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renders the hidden edit panel, filled in with the profile's current values
+ * @param profile The signed-in user's profile
+ * @returns HTML string for the panel
+ */
+export function renderProfileEditor(profile: UserProfile): string {
+  const avatarUrl = safeUrl(profile.avatar?.url);
+  const bannerUrl = safeUrl(profile.banner?.url);
+
+  return html`
+    <section class="profile-editor" id="profile-editor" hidden>
+      <form id="profile-editor-form" novalidate>
+        <h2>Edit profile</h2>
+
+        <div class="profile-editor-preview" aria-hidden="true">
+          <img
+            class="profile-editor-banner"
+            data-preview="banner"
+            data-current="${bannerUrl}"
+            src="${bannerUrl}"
+            alt=""
+            ${bannerUrl ? '' : 'hidden'}
+          />
+          <img
+            class="profile-editor-avatar"
+            data-preview="avatar"
+            data-current="${avatarUrl}"
+            src="${avatarUrl}"
+            alt=""
+            ${avatarUrl ? '' : 'hidden'}
+          />
+        </div>
+
+        ${renderField(
+          'bio',
+          'Bio',
+          html`<textarea
+            id="profile-bio"
+            class="form-control"
+            rows="3"
+            maxlength="${PROFILE_LIMITS.bio}"
+          >
+${profile.bio || ''}</textarea
+          >`,
+          PROFILE_LIMITS.bio
+        )}
+        ${renderImageFields('avatar', 'Avatar', profile.avatar)}
+        ${renderImageFields('banner', 'Banner', profile.banner)}
+
+        <div class="form-actions">
+          <button type="submit" class="btn btn-primary">💾 Save profile</button>
+          <button
+            type="button"
+            class="btn btn-secondary"
+            data-action="close-profile-editor"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </section>
+  `.toString();
+}
+
+function renderImageFields(
+  image: ProfileImage,
+  label: string,
+  current?: UserProfile['avatar']
+): SafeHtml {
+  return html`
+    ${renderField(
+      `${image}Url`,
+      `${label} URL`,
+      html`<input
+        type="url"
+        id="profile-${image}Url"
+        class="form-control"
+        placeholder="https://example.com/${image}.jpg"
+        value="${safeUrl(current?.url)}"
+      />`
+    )}
+    ${renderField(
+      `${image}Alt`,
+      `${label} alt text`,
+      html`<input
+        type="text"
+        id="profile-${image}Alt"
+        class="form-control"
+        placeholder="Describe the image"
+        maxlength="${PROFILE_LIMITS.imageAlt}"
+        value="${current?.alt || ''}"
+      />`,
+      PROFILE_LIMITS.imageAlt
+    )}
+  `;
+}
+
+function renderField(
+  name: keyof ProfileDraft,
+  label: string,
+  control: SafeHtml,
+  limit?: number
+): SafeHtml {
+  return html`
+    <div class="form-group" data-field="${name}">
+      <label for="profile-${name}">${label}</label>
+      ${control}
+      <div class="profile-editor-field-meta">
+        <span class="profile-editor-field-error" role="alert"></span>
+        ${limit ? html`<span class="char-counter">0/${limit}</span>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Behaviour                                  */
+/* -------------------------------------------------------------------------- */
+
+function getForm(): HTMLFormElement | null {
+  return document.getElementById(
+    'profile-editor-form'
+  ) as HTMLFormElement | null;
+}
+
+/**
+ * Reads the draft from the panel's fields
+ */
+export function readProfileDraft(form: HTMLFormElement): ProfileDraft {
+  const value = (name: keyof ProfileDraft) =>
+    form.querySelector<HTMLInputElement>(`#profile-${name}`)?.value || '';
+
+  return {
+    bio: value('bio'),
+    avatarUrl: value('avatarUrl').trim(),
+    avatarAlt: value('avatarAlt'),
+    bannerUrl: value('bannerUrl').trim(),
+    bannerAlt: value('bannerAlt'),
+  };
+}
+
+function showFieldErrors(
+  form: HTMLFormElement,
+  errors: ProfileDraftErrors
+): void {
+  form.querySelectorAll<HTMLElement>('[data-field]').forEach((group) => {
+    const message = errors[group.dataset.field as keyof ProfileDraft] || '';
+    const error = group.querySelector('.profile-editor-field-error');
+    if (error) error.textContent = message;
+    group.classList.toggle('has-error', !!message);
+  });
+}
+
+function updateCounters(form: HTMLFormElement): void {
+  form.querySelectorAll<HTMLElement>('[data-field]').forEach((group) => {
+    const field = group.querySelector<HTMLInputElement>('input, textarea');
+    const counter = group.querySelector('.char-counter');
+    if (!field || !counter || field.maxLength < 0) return;
+
+    const { length } = field.value;
+    counter.textContent = `${length}/${field.maxLength}`;
+    counter.classList.toggle('near-limit', length >= field.maxLength - 20);
+  });
+}
+
+/**
+ * Shows the typed image in the preview, or the current one while the field
+ * is empty or not a valid address
+ */
+function updatePreview(form: HTMLFormElement, draft: ProfileDraft): void {
+  form
+    .querySelectorAll<HTMLImageElement>('[data-preview]')
+    .forEach((preview) => {
+      const image = preview.dataset.preview as ProfileImage;
+      const url = draft[`${image}Url`];
+      const src = isHttpUrl(url) ? url : preview.dataset.current || '';
+
+      preview.hidden = !src;
+      if (src && preview.getAttribute('src') !== src) preview.src = src;
+    });
+}
+
+/**
+ * Says when a previewed image can't be loaded; saving is still allowed, the
+ * API has the final say
+ */
+function showBrokenImage(form: HTMLFormElement, preview: HTMLImageElement) {
+  const image = preview.dataset.preview as ProfileImage;
+  const error = form.querySelector(
+    `[data-field="${image}Url"] .profile-editor-field-error`
+  );
+  preview.hidden = true;
+  if (error && !error.textContent) {
+    error.textContent = "⚠️ This image couldn't be loaded.";
+  }
+}
+
+function handleChange(form: HTMLFormElement): void {
+  const draft = readProfileDraft(form);
+  updateCounters(form);
+  showFieldErrors(form, validateProfileDraft(draft));
+  updatePreview(form, draft);
+}
+
+/**
+ * Wires up the panel rendered by `renderProfileEditor`. `onSubmit` is called
+ * with the changes of a valid draft.
+ */
+export function initProfileEditor(
+  onSubmit: (changes: ProfileChanges, form: HTMLFormElement) => void
+): void {
+  const form = getForm();
+  if (!form) return;
+
+  form.addEventListener('input', () => handleChange(form));
+
+  form.querySelectorAll<HTMLImageElement>('[data-preview]').forEach((img) => {
+    img.addEventListener('error', () => showBrokenImage(form, img));
+  });
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+
+    const errors = validateProfileDraft(readProfileDraft(form));
+    showFieldErrors(form, errors);
+    if (Object.keys(errors).length > 0) {
+      form
+        .querySelector<HTMLElement>('.has-error input, .has-error textarea')
+        ?.focus();
+      return;
+    }
+
+    onSubmit(toProfileChanges(readProfileDraft(form)), form);
+  });
+
+  updateCounters(form);
+}
+
+/**
+ * Opens the panel, or closes it when it is open
+ */
+export function toggleProfileEditor(): void {
+  const editor = document.getElementById('profile-editor');
+  if (!editor?.hidden) {
+    closeProfileEditor();
+    return;
+  }
+
+  editor.hidden = false;
+  getForm()?.querySelector<HTMLElement>('textarea')?.focus();
+}
+
+/**
+ * Closes the panel and puts back the saved values
+ * @param isSaved The typed values were just saved and are kept from now on
+ */
+export function closeProfileEditor(isSaved: boolean = false): void {
+  const editor = document.getElementById('profile-editor');
+  const form = getForm();
+  if (!editor || !form) return;
+
+  if (isSaved) {
+    form
+      .querySelectorAll<HTMLInputElement>('input, textarea')
+      .forEach((field) => (field.defaultValue = field.value));
+    form
+      .querySelectorAll<HTMLImageElement>('[data-preview]')
+      .forEach((preview) => {
+        const url = form.querySelector<HTMLInputElement>(
+          `#profile-${preview.dataset.preview}Url`
+        )?.value;
+        if (url) preview.dataset.current = url.trim();
+      });
+  }
+
+  editor.hidden = true;
+  form.reset();
+  handleChange(form);
+}
@@ -0,0 +1,111 @@
+/**
+ * @file reactions.test.ts
+ * @description Unit tests for the per-symbol reaction chips.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  reactionActions,
+  renderReactionChips,
+  renderReactorsList,
+} from './reactions';
+import { delegateActions } from '../utils/ui';
+import type { NoroffPost } from '../services/posts/posts';
+
+const post = {
+  id: 7,
+  title: 'Hello',
+  body: '',
+  tags: [],
+  created: '2025-01-01T00:00:00.000Z',
+  updated: '2025-01-01T00:00:00.000Z',
+  _count: { comments: 0, reactions: 3 },
+  reactions: [
+    { symbol: '👍', count: 2, reactors: ['ada', 'grace'] },
+    { symbol: '🔥', count: 1, reactors: ['linus'] },
+  ],
+} as unknown as NoroffPost;
+
+function render(currentUser: string | null): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderReactionChips(post, currentUser);
+  return container;
+}
+
+describe('renderReactionChips', () => {
+  it('shows one chip per symbol with its count', () => {
+    const chips = render(null).querySelectorAll(
+      '.reaction-chip:not(.reaction-add-btn)'
+    );
+
+    expect(
+      Array.from(chips, (chip) => chip.textContent?.replace(/\s+/g, ' ').trim())
+    ).toEqual(['👍 2', '🔥 1']);
+  });
+
+  it('highlights the symbols the current user reacted with', () => {
+    const container = render('ada');
+    const reacted = container.querySelectorAll('.reaction-chip.reacted');
+
+    expect(reacted).toHaveLength(1);
+    expect(reacted[0].textContent).toContain('👍');
+    expect(reacted[0].getAttribute('aria-pressed')).toBe('true');
+    expect(
+      container
+        .querySelector('.reaction-picker-btn.reacted')
+        ?.textContent?.trim()
+    ).toBe('👍');
+  });
+
+  it('leaves out the "who reacted" toggle when nobody reacted', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderReactionChips(
+      { ...post, reactions: [] },
+      'ada'
+    );
+
+    expect(container.querySelector('.reactors-toggle')).toBeNull();
+    expect(container.querySelector('.reaction-add-btn')).not.toBeNull();
+  });
+});
+
+describe('renderReactorsList', () => {
+  it('lists who reacted with each symbol', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderReactorsList(post.reactions || []);
+
+    const names = Array.from(
+      container.querySelectorAll('.reactors-item'),
+      (item) =>
+        Array.from(item.querySelectorAll('.reactor-link'), (link) =>
+          link.textContent?.trim()
+        )
+    );
+    expect(names).toEqual([['ada', 'grace'], ['linus']]);
+  });
+});
+
+describe('reactionActions', () => {
+  it('reacts with a picked symbol and closes the picker', () => {
+    const container = render(null);
+    const react = vi.fn();
+    const stop = delegateActions(container, reactionActions(react));
+    const picker = container.querySelector<HTMLElement>('.reaction-picker')!;
+    picker.hidden = false;
+
+    const button = (selector: string, symbol: string) =>
+      Array.from(container.querySelectorAll<HTMLElement>(selector)).find(
+        (button) => button.dataset.symbol === symbol
+      )!;
+
+    button('[data-action="react"]', '🔥').click();
+    button('[data-action="pick-reaction"]', '🎉').click();
+
+    expect(react.mock.calls).toEqual([
+      [7, '🔥'],
+      [7, '🎉'],
+    ]);
+    expect(picker.hidden).toBe(true);
+    stop();
+  });
+});
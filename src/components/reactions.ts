@@ -0,0 +1,209 @@
+/**
+ * @file reactions.ts
+ * @description Reaction chips for a post: one chip per symbol with its count,
+ * highlighted when the current user used it, an emoji picker to add new
+ * symbols and a "who reacted" list.
+ */
+
+import { hasUserReacted, type NoroffPost } from '../services/posts/posts';
+import { html, raw, type ActionHandlers } from '../utils/ui';
+
+type PostReaction = NonNullable<NoroffPost['reactions']>[number];
+
+/** Symbols offered by the picker; chips show any symbol a post already has */
+export const REACTION_SYMBOLS = [
+  '👍',
+  '❤️',
+  '😂',
+  '😮',
+  '😢',
+  '😡',
+  '🔥',
+  '🎉',
+  '👏',
+  '🙌',
+  '💯',
+  '🤔',
+  '😍',
+  '🥳',
+  '😎',
+  '🙏',
+  '💪',
+  '👀',
+  '✨',
+  '🚀',
+  '☕',
+  '🌈',
+  '💡',
+  '👎',
+];
+
+/**
+ * Renders the reaction chips, picker and "who reacted" list of a post card.
+ * Chips and picker buttons are handled by `reactionActions`.
+ * @param post The post whose reactions to show
+ * @param currentUser Name of the signed in user, if any
+ * @returns HTML string for the reactions bar
+ */
+export function renderReactionChips(
+  post: NoroffPost,
+  currentUser: string | null
+): string {
+  const id = Number(post.id);
+  const reactions = post.reactions || [];
+
+  const chips = reactions.map((reaction) => {
+    const reacted = hasUserReacted(post, reaction.symbol, currentUser);
+    return html`
+      <button
+        type="button"
+        class="reaction-chip${reacted ? ' reacted' : ''}"
+        aria-pressed="${reacted}"
+        title="${describeReactors(reaction)}"
+        data-action="react"
+        data-post-id="${id}"
+        data-symbol="${reaction.symbol}"
+      >
+        ${reaction.symbol}
+        <span class="reaction-chip-count">${reaction.count}</span>
+      </button>
+    `;
+  });
+
+  return html`
+    <div class="reaction-bar" id="reaction-bar-${id}">
+      <div class="reaction-chips">
+        ${chips}
+        <button
+          type="button"
+          class="reaction-chip reaction-add-btn"
+          aria-label="Add reaction"
+          aria-expanded="false"
+          data-action="toggle-reaction-picker"
+          data-post-id="${id}"
+        >
+          ☺+
+        </button>
+        ${reactions.length > 0
+          ? html`<button
+              type="button"
+              class="reactors-toggle"
+              aria-expanded="false"
+              data-action="toggle-reactors"
+              data-post-id="${id}"
+            >
+              Who reacted
+            </button>`
+          : ''}
+      </div>
+
+      <div
+        class="reaction-picker"
+        id="reaction-picker-${id}"
+        role="group"
+        aria-label="Pick a reaction"
+        hidden
+      >
+        ${REACTION_SYMBOLS.map((symbol) => {
+          const reacted = hasUserReacted(post, symbol, currentUser);
+          return html`<button
+            type="button"
+            class="reaction-picker-btn${reacted ? ' reacted' : ''}"
+            aria-pressed="${reacted}"
+            data-action="pick-reaction"
+            data-post-id="${id}"
+            data-symbol="${symbol}"
+          >
+            ${symbol}
+          </button>`;
+        })}
+      </div>
+
+      ${reactions.length > 0
+        ? html`<div class="reactors-panel" id="reactors-${id}" hidden>
+            ${raw(renderReactorsList(reactions))}
+          </div>`
+        : ''}
+    </div>
+  `.toString();
+}
+
+/**
+ * Lists who reacted with each symbol, linking to their profiles
+ * @param reactions The post's reactions
+ * @returns HTML string for the list
+ */
+export function renderReactorsList(reactions: PostReaction[]): string {
+  return html`
+    <ul class="reactors-list">
+      ${reactions.map(
+        (reaction) => html`
+          <li class="reactors-item">
+            <span class="reactors-symbol"
+              >${reaction.symbol}
+              <span class="reaction-chip-count">${reaction.count}</span></span
+            >
+            <span class="reactors-names">
+              ${reaction.reactors?.length
+                ? reaction.reactors.map(
+                    (name, index) =>
+                      html`${index > 0 ? ', ' : ''}<a
+                          href="/profile/${encodeURIComponent(name)}"
+                          class="reactor-link"
+                          data-link-profile="${name}"
+                          >${name}</a
+                        >`
+                  )
+                : 'No names available'}
+            </span>
+          </li>
+        `
+      )}
+    </ul>
+  `.toString();
+}
+
+function describeReactors(reaction: PostReaction): string {
+  const reactors = reaction.reactors || [];
+  return reactors.length > 0
+    ? `${reaction.symbol} by ${reactors.join(', ')}`
+    : `${reaction.count} × ${reaction.symbol}`;
+}
+
+/**
+ * Handlers for the reactions bar, for `delegateActions`
+ * @param react Adds or removes the current user's reaction to a post
+ */
+export function reactionActions(
+  react: (postId: number, symbol: string) => void
+): ActionHandlers {
+  return {
+    click: {
+      react: (chip) =>
+        react(Number(chip.dataset.postId), chip.dataset.symbol || ''),
+      // Reacts with a symbol from the picker and closes it
+      'pick-reaction': (button) => {
+        const picker = button.closest<HTMLElement>('.reaction-picker');
+        if (picker) picker.hidden = true;
+
+        react(Number(button.dataset.postId), button.dataset.symbol || '');
+      },
+      'toggle-reaction-picker': (toggle) =>
+        togglePanel(`reaction-picker-${toggle.dataset.postId}`, toggle),
+      'toggle-reactors': (toggle) =>
+        togglePanel(`reactors-${toggle.dataset.postId}`, toggle),
+    },
+  };
+}
+
+/**
+ * Shows or hides a panel of the reactions bar, keeping its toggle's
+ * `aria-expanded` in sync
+ */
+function togglePanel(panelId: string, toggle: HTMLElement): void {
+  const panel = document.getElementById(panelId);
+  if (!panel) return;
+
+  panel.hidden = !panel.hidden;
+  toggle.setAttribute('aria-expanded', String(!panel.hidden));
+}
@@ -0,0 +1,38 @@
+/**
+ * @file updatePrompt.ts
+ * @description Toast offering to reload into a new version of the app.
+ */
+
+const PROMPT_ID = 'update-prompt';
+
+/**
+ * Shows the update prompt, once.
+ * @param activate Switches to the new version
+ */
+export function showUpdatePrompt(activate: () => void): void {
+  if (document.getElementById(PROMPT_ID)) return;
+
+  document.body.insertAdjacentHTML(
+    'beforeend',
+    `
+      <div class="update-prompt" id="${PROMPT_ID}" role="status">
+        <p>✨ A new version of the app is available.</p>
+        <div class="update-prompt-actions">
+          <button type="button" class="btn btn-primary" data-update-reload>Reload</button>
+          <button type="button" class="btn btn-secondary" data-update-dismiss>Later</button>
+        </div>
+      </div>
+    `
+  );
+
+  const prompt = document.getElementById(PROMPT_ID);
+  prompt
+    ?.querySelector('[data-update-reload]')
+    ?.addEventListener('click', (event) => {
+      (event.currentTarget as HTMLButtonElement).disabled = true;
+      activate();
+    });
+  prompt
+    ?.querySelector('[data-update-dismiss]')
+    ?.addEventListener('click', () => prompt.remove());
+}
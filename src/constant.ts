@@ -16,6 +16,7 @@ export const FUNC_ERROR_TEXT = 'Expected a function';
 export const LAZY_LOAD_CLASSNAME = 'js-lazy-load';
 export const PLACEHOLDER_URL = '/10.svg';
 export const APP_CONTAINER_CLASSNAME = 'js-app';
+export const NAVBAR_CONTAINER_ID = 'js-navbar';
 
 /**
  * An object containing media query breakpoints.
@@ -1,65 +1,148 @@
 import './style.css';
-import { renderRoute } from './router';
-import LoadingScreen from './pages/LoadingScreen.js';
-import NavbarPage, { initNavbar } from './pages/NavbarPage.js';
+import { handlePopState, renderRoute } from './router';
+import { getLoadingScreen } from './pages/LoadingScreen.js';
+import NavbarPage, { updateActiveNav } from './pages/NavbarPage.js';
+import { initOfflineBanner } from './components/offlineBanner';
+import { showUpdatePrompt } from './components/updatePrompt';
+import { delegateActions, delegateLinks } from './utils/ui';
+import { createOutlet, type Outlet } from './utils/component';
+import { NAVBAR_CONTAINER_ID } from './constant';
+import {
+  clearEntityCaches,
+  invalidateEntityCaches,
+} from './services/cache/entityCache';
+import {
+  clearOutbox,
+  refreshPendingWrites,
+  replayOutbox,
+} from './services/offline/outbox';
+import { clearSnapshots } from './services/offline/snapshots';
+import { onSessionEnd } from './services/auth/session';
+import {
+  clearServiceWorkerApiCache,
+  registerServiceWorker,
+} from './sw/register';
+import { store, selectCurrentPage, selectIsLoggedIn } from './store';
 
 // Initialize loading screen
-const loadingScreen = new LoadingScreen();
+getLoadingScreen();
+
+let navbarOutlet: Outlet | null = null;
 
 // Function to refresh navbar after login/logout
 function refreshNavbar() {
-  const existingNavbar = document.querySelector('.navbar');
-  if (existingNavbar) {
-    existingNavbar.remove();
-  }
+  const container = document.getElementById(NAVBAR_CONTAINER_ID);
+  if (!container) return;
 
-  // Add updated navbar
-  const navbar = NavbarPage();
-  document.body.insertAdjacentHTML('afterbegin', navbar);
-
-  // Re-initialize navbar functionality
-  initNavbar();
+  // Unmounts the previous navbar along with its listeners
+  navbarOutlet ??= createOutlet(container);
+  navbarOutlet.render(NavbarPage, undefined);
 }
 
-// Make renderRoute, loadingScreen, and refreshNavbar globally available
-(window as any).renderRoute = renderRoute;
-(window as any).loadingScreen = loadingScreen;
-(window as any).refreshNavbar = refreshNavbar;
+// Keep the navbar in sync with the store
+store.select(selectIsLoggedIn, refreshNavbar);
+store.select(selectCurrentPage, updateActiveNav);
+// Cached posts, profiles and queued writes belong to whoever was signed in.
+// They outlive an expired session, for when the same user signs back in.
+onSessionEnd(() => {
+  clearEntityCaches();
+  clearSnapshots().catch(() => {});
+  clearOutbox().catch(() => {});
+  clearServiceWorkerApiCache();
+});
+
+// Track connectivity; writes queued while offline are sent on reconnect
+window.addEventListener('offline', () => {
+  store.dispatch({ type: 'network/status', isOnline: false });
+});
+window.addEventListener('online', () => {
+  store.dispatch({ type: 'network/status', isOnline: true });
+  invalidateEntityCaches();
+  replayOutbox().catch((error) => {
+    console.error('Failed to send queued changes:', error);
+  });
+});
 
 // Initialize the application
 document.addEventListener('DOMContentLoaded', () => {
   // Add navbar to the page
-  const navbar = NavbarPage();
-  document.body.insertAdjacentHTML('afterbegin', navbar);
+  refreshNavbar();
 
-  // Initialize navbar functionality with a small delay to ensure DOM is ready
-  setTimeout(() => {
-    initNavbar();
-  }, 100);
+  initOfflineBanner();
 
   // Handle initial route
   renderRoute();
 
+  registerServiceWorker(showUpdatePrompt);
+
+  // Pick up writes queued during an earlier visit
+  refreshPendingWrites()
+    .then(() => (navigator.onLine ? replayOutbox() : undefined))
+    .catch((error) => {
+      console.error('Failed to send queued changes:', error);
+    });
+
   // Handle browser navigation (back/forward buttons)
-  window.addEventListener('popstate', () => {
-    renderRoute();
-    // Update active nav state when navigating
-    setTimeout(() => {
-      if (typeof (window as any).updateActiveNav === 'function') {
-        (window as any).updateActiveNav();
-      }
-    }, 100);
-  });
+  window.addEventListener('popstate', handlePopState);
 });
 
-
 function navigateToProfile(username: string) {
   if (!username || username === 'Unknown') return;
 
-  const url = `/profile?user=${username}`;
+  const url = `/profile/${encodeURIComponent(username)}`;
   history.pushState({ path: url }, '', url);
-  (window as any).renderRoute('/profile');
+  renderRoute(url);
 }
 
-// Make it globally available
-(window as any).navigateToProfile = navigateToProfile;
+function navigateToTag(tag: string) {
+  if (!tag) return;
+
+  const url = `/tags/${encodeURIComponent(tag)}`;
+  history.pushState({ path: url }, '', url);
+  renderRoute(url);
+}
+
+function navigateToPost(postId: number) {
+  const url = `/post/${postId}`;
+  // Lets the post page go back in history instead of to the feed
+  history.pushState({ path: url, fromApp: true }, '', url);
+  renderRoute(url);
+}
+
+/**
+ * Copies a post's permalink to the clipboard and confirms on the button
+ */
+async function copyPostLink(postId: number, button?: HTMLElement) {
+  const url = `${window.location.origin}/post/${postId}`;
+
+  try {
+    await navigator.clipboard.writeText(url);
+  } catch {
+    // Clipboard API is unavailable (e.g. insecure context), let the user copy it
+    window.prompt('Copy this link:', url);
+    return;
+  }
+
+  if (button) {
+    const label = button.innerHTML;
+    button.innerHTML = '✓ <span class="action-label">Copied</span>';
+    setTimeout(() => {
+      button.innerHTML = label;
+    }, 2000);
+  }
+}
+
+// Links in rendered content carry `data-link-*` instead of inline handlers
+delegateLinks({
+  profile: navigateToProfile,
+  tag: navigateToTag,
+  post: (postId) => navigateToPost(Number(postId)),
+});
+
+// Actions shared by every page; pages handle their own on their root
+delegateActions(document, {
+  click: {
+    'copy-post-link': (button) =>
+      copyPostLink(Number(button.dataset.postId), button),
+  },
+});
@@ -3,47 +3,114 @@
  * @file Enhanced FeedPage.ts - COMPLETE VERSION
  */
 
-import postCard from '../components/postCard';
+import postCard, { getTimeAgo } from '../components/postCard';
+import {
+  initPostComposer,
+  renderPostComposer,
+  resetPostComposer,
+  type PostDraft,
+} from '../components/postComposer';
+import { reactionActions } from '../components/reactions';
+import {
+  commentThreadActions,
+  expandCommentThread,
+  renderCommentThread,
+  takeCommentThreads,
+  type CommentSort,
+} from '../components/commentThread';
 import {
   getAllPosts,
+  getFollowingPosts,
+  getLatestPosts,
+  getPostsByTag,
   getPublicPosts,
   createPost,
   updatePost,
   deletePost,
+  getCachedPost,
+  onPostChange,
+  togglePostReaction,
   type NoroffPost,
 } from '../services/posts/posts';
 import {
   createComment,
-  toggleReaction,
+  getCachedComments,
+  getPostComments,
   deleteComment,
+  isPendingComment,
+  onCommentsChange,
+  type Comment,
 } from '../services/interactions/interactions';
-import { isLoggedIn } from '../utils/auth';
-import { getLocalItem } from '../utils/storage';
-
-// Add missing import for navigation function
-declare global {
-  interface Window {
-    searchQuery?: string;
-    searchResults?: NoroffPost[];
-    navigateToProfile?: (username: string) => void;
-    navigateToPage?: (page: number) => void;
-  }
-}
+import { getCurrentUser, isLoggedIn } from '../utils/auth';
+import { store } from '../store';
+import { getLocalItem, setLocalItem } from '../utils/storage';
+import { throttle } from '../utils/throttle';
+import { renderRichText } from '../utils/richText';
+import { createPoller, type Poller } from '../utils/poller';
+import {
+  clearInlineError,
+  delegateActions,
+  escapeHtml,
+  html,
+  raw,
+  showInlineError,
+  type ActionHandlers,
+  type SafeHtml,
+} from '../utils/ui';
+import { isAbortError } from '../services/api/client';
+import { renderRoute } from '../router';
+import { registerLeaveGuard } from '../router/guards';
+import {
+  AuthError,
+  NotFoundError,
+  OfflineError,
+  QueuedError,
+  ValidationError,
+  type ComponentContext,
+  type PageComponent,
+  type PaginationMeta,
+  type RouteContext,
+} from '../types';
 
-export default async function FeedPage(): Promise<string> {
+/**
+ * The feed of everyone's or followed users' posts, a tag's posts, or search
+ * results. Moving between pages, tabs and tags updates the mounted feed.
+ */
+const FeedPage: PageComponent = {
+  render: renderFeedPage,
+  mount: mountFeedPage,
+  update: initializeFeedInteractions,
+};
+
+export default FeedPage;
+
+async function renderFeedPage({
+  params,
+  query,
+}: RouteContext): Promise<string> {
   try {
     const isUserLoggedIn = isLoggedIn();
 
     // Check for search results from navbar
-    const searchQuery = window.searchQuery;
-    const searchResults = window.searchResults as NoroffPost[];
-    const isSearchMode = Boolean(searchQuery && searchResults);
+    const search = store.getState().search;
+    const isSearchMode = search.query !== null;
+
+    // Continuous mode appends pages as the user scrolls instead of paging
+    const isContinuous = !isSearchMode && getFeedMode() === 'continuous';
+    currentFeed = isUserLoggedIn
+      ? getFeedView(params, query)
+      : { source: 'global', tag: null };
+    const feedSource = currentFeed.source;
+    const isFollowingFeed = feedSource === 'following';
+    const activeTag = currentFeed.tag;
 
     let posts: NoroffPost[] = [];
     let postsResponse: any;
+    // When returning via back/forward, reload every page that was appended
+    const restoredPages = isContinuous ? getRestoredFeedPages() : 1;
 
     if (isSearchMode) {
-      posts = searchResults;
+      posts = search.posts;
       postsResponse = {
         data: posts,
         meta: {
@@ -55,17 +122,19 @@ export default async function FeedPage(): Promise<string> {
         },
       };
     } else {
-      const urlParams = new URLSearchParams(window.location.search);
-      const currentPage = parseInt(urlParams.get('page') || '1', 10);
-      const postsPerPage = 15;
+      const currentPage = isContinuous
+        ? 1
+        : parseInt(query.get('page') || '1', 10);
+      const postsPerPage = POSTS_PER_PAGE * restoredPages;
 
       try {
-        if (isUserLoggedIn) {
-          postsResponse = await getAllPosts(postsPerPage, currentPage);
-        } else {
-          postsResponse = await getPublicPosts(postsPerPage, currentPage);
-        }
+        postsResponse = await fetchFeedPosts(
+          currentFeed,
+          postsPerPage,
+          currentPage
+        );
         posts = postsResponse.data;
+        store.dispatch({ type: 'posts/loaded', posts });
       } catch (error) {
         console.log('Failed to load posts:', error);
         posts = [];
@@ -82,83 +151,47 @@ export default async function FeedPage(): Promise<string> {
       }
     }
 
-    // Initialize event listeners after DOM is rendered
-    setTimeout(() => {
-      initializeFeedInteractions();
-    }, 100);
-
     return `
       <div class="feed-page">
         <main class="feed-container">
           <!-- Feed Header -->
           <header class="feed-header">
-            <h1 class="feed-title">${isUserLoggedIn ? 'Your Feed' : 'Social Feed'}</h1>
+            <h1 class="feed-title">${
+              activeTag
+                ? `#${escapeHtml(activeTag)}`
+                : isUserLoggedIn
+                  ? 'Your Feed'
+                  : 'Social Feed'
+            }</h1>
             <p class="feed-subtitle">${
-              isUserLoggedIn
-                ? `Discover what's happening in your network${
-                    !isSearchMode
-                      ? ` (Page ${postsResponse.meta.currentPage} of ${postsResponse.meta.pageCount})`
-                      : ''
-                  }`
-                : `Explore public posts and discover interesting content${
-                    !isSearchMode
+              activeTag
+                ? `Posts tagged #${escapeHtml(activeTag)}${
+                    !isSearchMode && !isContinuous
                       ? ` (Page ${postsResponse.meta.currentPage} of ${postsResponse.meta.pageCount})`
                       : ''
                   }`
+                : isUserLoggedIn
+                  ? `${isFollowingFeed ? 'Posts from people you follow' : "Discover what's happening in your network"}${
+                      !isSearchMode && !isContinuous
+                        ? ` (Page ${postsResponse.meta.currentPage} of ${postsResponse.meta.pageCount})`
+                        : ''
+                    }`
+                  : `Explore public posts and discover interesting content${
+                      !isSearchMode && !isContinuous
+                        ? ` (Page ${postsResponse.meta.currentPage} of ${postsResponse.meta.pageCount})`
+                        : ''
+                    }`
             }</p>
+            ${!isSearchMode && isUserLoggedIn && !activeTag ? renderFeedTabs(feedSource) : ''}
+            ${!isSearchMode ? renderFeedModeToggle(isContinuous) : ''}
+            ${!isSearchMode ? renderTagFilterBar(posts, activeTag) : ''}
           </header>
 
           <!-- Create Post Form (only logged-in users) -->
-${
-  isUserLoggedIn
-    ? `
-        <section class="create-post-box collapsed" id="create-post-box">
-           <form id="create-post-form" class="create-post-form">
-    
-               <!-- Collapsed View -->
-               <div class="collapsed-view">
-                  <input 
-                  type="text" 
-                  id="collapsed-input" 
-                  placeholder="What's on your mind?" 
-                  readonly 
-                   />
-               </div>
-
-                <!-- Expanded View (hidden until clicked) -->
-               <div class="expanded-fields" style="display: none;">
-                  <h2>Create a Post</h2>
-                     <div class="form-group">
-                        <label for="post-title">Title</label>
-                        <input type="text" id="post-title" name="title" placeholder="Enter a title" required />
-                     </div>
-                     <div class="form-group">
-                         <label for="post-body">Body</label>
-                         <textarea id="post-body" name="body" rows="3" placeholder="What's on your mind?" required></textarea>
-                     </div>
-                     <div class="form-group">
-                         <label for="post-tags">Tags (comma separated)</label>
-                         <input type="text" id="post-tags" name="tags" placeholder="e.g. nature, coding, life" />
-                     </div>
-                     <div class="form-group">
-                         <label for="post-image-url">Image URL</label>
-                         <input type="url" id="post-image-url" name="imageUrl" placeholder="https://example.com/image.jpg" />
-                     </div>
-                     <div class="form-group">
-                         <label for="post-image-alt">Image Alt Text</label>
-                         <input type="text" id="post-image-alt" name="imageAlt" placeholder="Describe the image" />
-                     </div>
-
-                     <div class="form-actions">
-                         <button type="submit" class="btn btn-primary">Post</button>
-                         <button type="button" id="cancel-post-btn" class="btn btn-secondary">Cancel</button>
-                     </div>
-                  </div>
-             </form>
-         </section>
-`
-    : ''
-}
+          ${isUserLoggedIn ? renderPostComposer() : ''}
+
+          <!-- Shown by the new posts poller -->
+          <button type="button" class="new-posts-banner" id="new-posts-banner" hidden></button>
 
           <!-- Posts Container -->
           <div class="posts-container" id="posts-container">
@@ -173,21 +206,50 @@ ${
                       'No posts found',
                       'Try searching with different keywords'
                     )
-                  : renderEmptyState(
-                      '🔭',
-                      'No posts available',
-                      isUserLoggedIn
-                        ? 'Start following people to see their posts!'
-                        : 'No posts to display at the moment. Try refreshing the page.',
-                      !isUserLoggedIn
-                        ? `<button class="btn btn-primary" onclick="window.location.href='/'" style="margin-top: 1rem;">🔐 Sign In for More Content</button>`
-                        : ''
-                    )
+                  : activeTag
+                    ? renderEmptyState(
+                        '🏷️',
+                        `No posts tagged #${activeTag}`,
+                        'Try another tag or check back later.'
+                      )
+                    : isFollowingFeed
+                      ? renderEmptyState(
+                          '👥',
+                          'No posts from people you follow',
+                          'Start following people to see their posts!',
+                          html`<button
+                            class="btn btn-primary"
+                            data-feed-tab="global"
+                            style="margin-top: 1rem;"
+                          >
+                            🌍 Explore everyone's posts
+                          </button>`
+                        )
+                      : renderEmptyState(
+                          '🔭',
+                          'No posts available',
+                          isUserLoggedIn
+                            ? 'Be the first to share something!'
+                            : 'No posts to display at the moment. Try refreshing the page.',
+                          !isUserLoggedIn
+                            ? `<a href="/" class="btn btn-primary" style="margin-top: 1rem;">🔐 Sign In for More Content</a>`
+                            : ''
+                        )
             }
           </div>
 
-          <!-- Pagination Controls (only show when not in search mode) -->
-          ${!isSearchMode ? renderPaginationControls(postsResponse.meta) : ''}
+          <!-- Pagination Controls or infinite scroll sentinel (not in search mode) -->
+          ${
+            isSearchMode
+              ? ''
+              : isContinuous
+                ? renderFeedSentinel(
+                    postsResponse.meta,
+                    posts.length > 0,
+                    restoredPages
+                  )
+                : renderPaginationControls(postsResponse.meta)
+          }
         </main>
       </div>
 
@@ -196,7 +258,7 @@ ${
         <div class="modal-content">
           <div class="modal-header">
             <h3>✏️ Edit Your Post</h3>
-            <button class="modal-close" onclick="closeEditModal()">×</button>
+            <button class="modal-close" data-action="close-edit-modal">×</button>
           </div>
           <form id="editPostForm">
             <div class="form-group">
@@ -220,25 +282,12 @@ ${
               <input type="text" id="editPostImageAlt" class="form-control" />
             </div>
             <div style="display: flex; gap: 1rem; justify-content: flex-end; margin-top: 1.5rem;">
-              <button type="button" class="btn btn-secondary" onclick="closeEditModal()">Cancel</button>
+              <button type="button" class="btn btn-secondary" data-action="close-edit-modal">Cancel</button>
               <button type="submit" class="btn btn-primary">💾 Update Post</button>
             </div>
           </form>
         </div>
       </div>
-
-      <!-- Full Post View Modal -->
-      <div class="modal" id="fullPostModal" style="display: none;">
-        <div class="modal-content">
-          <div class="modal-header">
-            <h3>📄 Full Post</h3>
-            <button class="modal-close" onclick="closeFullPostModal()">×</button>
-          </div>
-          <div id="fullPostContent">
-            <!-- Full post content will be loaded here -->
-          </div>
-        </div>
-      </div>
     `;
   } catch (error) {
     console.error('Error loading feed:', error);
@@ -254,16 +303,19 @@ function renderEmptyState(
   icon: string,
   title: string,
   message: string,
-  extra: string = ''
+  extra: SafeHtml | string = ''
 ): string {
-  return `
-    <div style="text-align: center; padding: 3rem; color: var(--text-muted); background: var(--bg-card); border-radius: var(--border-radius-lg); border: 1px solid var(--border-color);">
+  return html`
+    <div
+      class="empty-state"
+      style="text-align: center; padding: 3rem; color: var(--text-muted); background: var(--bg-card); border-radius: var(--border-radius-lg); border: 1px solid var(--border-color);"
+    >
       <div style="font-size: 3rem; margin-bottom: 1rem;">${icon}</div>
       <h3>${title}</h3>
       <p>${message}</p>
       ${extra}
     </div>
-  `;
+  `.toString();
 }
 
 function renderErrorState(): string {
@@ -274,7 +326,7 @@ function renderErrorState(): string {
           <div class="error-icon">⚠️</div>
           <h2>Something went wrong</h2>
           <p>We couldn't load the posts right now. Please try again.</p>
-          <button class="retry-btn" onclick="window.location.reload()">Try Again</button>
+          <button class="retry-btn" data-action="reload">Try Again</button>
         </div>
       </main>
     </div>
@@ -299,15 +351,15 @@ function renderPaginationControls(meta: any): string {
       <div class="pagination-controls">
         ${
           hasPrev
-            ? `<button class="pagination-btn pagination-prev" onclick="navigateToPage(${currentPage - 1})">Previous</button>`
+            ? `<button class="pagination-btn pagination-prev" data-action="go-to-page" data-page="${currentPage - 1}">Previous</button>`
             : `<button class="pagination-btn pagination-prev disabled" disabled>Previous</button>`
         }
-        ${currentPage !== 1 ? `<button class="pagination-btn pagination-number" onclick="navigateToPage(1)">1</button>` : ''}
+        ${currentPage !== 1 ? `<button class="pagination-btn pagination-number" data-action="go-to-page" data-page="1">1</button>` : ''}
         <button class="pagination-btn pagination-number active" disabled>${currentPage}</button>
-        ${currentPage !== totalPages ? `<button class="pagination-btn pagination-number" onclick="navigateToPage(${totalPages})">${totalPages}</button>` : ''}
+        ${currentPage !== totalPages ? `<button class="pagination-btn pagination-number" data-action="go-to-page" data-page="${totalPages}">${totalPages}</button>` : ''}
         ${
           hasNext
-            ? `<button class="pagination-btn pagination-next" onclick="navigateToPage(${currentPage + 1})">Next</button>`
+            ? `<button class="pagination-btn pagination-next" data-action="go-to-page" data-page="${currentPage + 1}">Next</button>`
             : `<button class="pagination-btn pagination-next disabled" disabled>Next</button>`
         }
       </div>
@@ -315,131 +367,683 @@ function renderPaginationControls(meta: any): string {
   `;
 }
 
+function renderFeedTabs(source: FeedSource): string {
+  return `
+    <nav class="feed-tabs" aria-label="Feed">
+      <button class="feed-tab ${source === 'global' ? 'active' : ''}" data-feed-tab="global" aria-current="${source === 'global'}">
+        🌍 Everyone
+      </button>
+      <button class="feed-tab ${source === 'following' ? 'active' : ''}" data-feed-tab="following" aria-current="${source === 'following'}">
+        👥 Following
+      </button>
+    </nav>
+  `;
+}
+
+/**
+ * Chip bar with the most used tags on this page; the active tag can be cleared
+ */
+function renderTagFilterBar(
+  posts: NoroffPost[],
+  activeTag: string | null
+): string {
+  const tagCounts = new Map<string, number>();
+  posts.forEach((post) =>
+    (post.tags || []).forEach((tag) => {
+      const trimmed = tag.trim();
+      if (trimmed) tagCounts.set(trimmed, (tagCounts.get(trimmed) || 0) + 1);
+    })
+  );
+
+  const popularTags = [...tagCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([tag]) => tag)
+    .filter((tag) => tag !== activeTag)
+    .slice(0, MAX_FILTER_TAGS);
+
+  if (!activeTag && popularTags.length === 0) return '';
+
+  return html`
+    <div class="tag-filter-bar" role="toolbar" aria-label="Filter by tag">
+      ${activeTag
+        ? html`<button
+            class="tag-filter-chip active"
+            data-clear-tag
+            title="Show all posts"
+          >
+            #${activeTag} ✕
+          </button>`
+        : ''}
+      ${popularTags.map(
+        (tag) =>
+          html`<button class="tag-filter-chip" data-filter-tag="${tag}">
+            #${tag}
+          </button>`
+      )}
+    </div>
+  `.toString();
+}
+
+function renderFeedModeToggle(isContinuous: boolean): string {
+  return `
+    <div class="feed-mode-toggle" role="group" aria-label="Feed layout">
+      <button class="feed-mode-btn ${!isContinuous ? 'active' : ''}" data-feed-mode="paged" aria-pressed="${!isContinuous}">
+        📄 Pages
+      </button>
+      <button class="feed-mode-btn ${isContinuous ? 'active' : ''}" data-feed-mode="continuous" aria-pressed="${isContinuous}">
+        ♾️ Continuous
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * @param pagesPerResponse Feed pages in one page of `meta`; more than one
+ * when a back/forward restore loaded them in a single request
+ */
+function renderFeedSentinel(
+  meta: PaginationMeta,
+  hasPosts: boolean,
+  pagesPerResponse: number = 1
+): string {
+  if (!meta || !hasPosts) return '';
+
+  // Counted in feed pages, which is what loading more fetches
+  const pagesLoaded = meta.currentPage * pagesPerResponse;
+  const nextPage = meta.isLastPage ? '' : pagesLoaded + 1;
+
+  return `
+    <div class="feed-sentinel" id="feed-sentinel" data-next-page="${nextPage}" data-pages-loaded="${pagesLoaded}">
+      ${
+        meta.isLastPage
+          ? `<p class="feed-end">🎉 You're all caught up!</p>`
+          : '<div class="loading-spinner-small"></div>'
+      }
+    </div>
+  `;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                            Interactions / Events                           */
 /* -------------------------------------------------------------------------- */
 
-function initializeFeedInteractions(): void {
-  // Handle create post form
-  const createForm = document.getElementById(
-    'create-post-form'
-  ) as HTMLFormElement | null;
-  if (createForm) {
-    createForm.addEventListener('submit', handleCreatePost);
-  }
+/**
+ * Sets up what lives as long as the feed is on screen, then wires up the
+ * rendered posts
+ */
+function mountFeedPage(context: ComponentContext): void {
+  const { root, listen, onCleanup } = context;
 
-  // Collapsible create post box
-  const postBox = document.getElementById('create-post-box');
-  const collapsedInput = document.getElementById('collapsed-input');
-  const expandedFields = postBox?.querySelector(
-    '.expanded-fields'
-  ) as HTMLElement;
-  const cancelBtn = document.getElementById('cancel-post-btn');
-
-  if (postBox && collapsedInput && expandedFields) {
-    collapsedInput.addEventListener('click', () => {
-      postBox.classList.remove('collapsed');
-      postBox.classList.add('expanded');
-      expandedFields.style.display = 'block';
-      collapsedInput.style.display = 'none';
-    });
+  // Keep post cards in sync with edits and deletes, wherever they were made
+  onCleanup(
+    onPostChange((postId, post) => {
+      const card = document.getElementById(`post-${postId}`);
+      if (!card?.classList.contains('post-card')) return;
 
-    cancelBtn?.addEventListener('click', () => {
-      postBox.classList.remove('expanded');
-      postBox.classList.add('collapsed');
-      expandedFields.style.display = 'none';
-      collapsedInput.style.display = 'block';
-      createForm?.reset();
-    });
-  }
+      if (post) {
+        refreshPostCard(card, post);
+      } else {
+        removePostCard(card);
+      }
+    })
+  );
 
-  // Handle edit post form
-  const editForm = document.getElementById(
-    'editPostForm'
-  ) as HTMLFormElement | null;
-  if (editForm) {
-    editForm.addEventListener('submit', handleEditPost);
-  }
+  // Comment lists follow the cache, including comments still being saved
+  onCleanup(
+    onCommentsChange((postId, comments) => {
+      if (comments) renderComments(Number(postId), comments);
+    })
+  );
+
+  onCleanup(teardownInfiniteScroll);
+  onCleanup(() => newPostsPoller?.stop());
 
   // Enhanced: Close dropdowns when clicking outside
-  document.addEventListener('click', function (e) {
+  listen(document, 'click', (e) => {
     const target = e.target as Element;
     if (!target.closest('.dropdown')) {
       document.querySelectorAll('.post-menu.show').forEach((menu) => {
         menu.classList.remove('show');
       });
     }
+
+    // Clicking the backdrop closes the edit modal
+    if (target.id === 'editPostModal') closeEditModal();
   });
 
-  // Make ALL functions globally available
-  (window as any).togglePostMenu = togglePostMenu;
-  (window as any).editPost = editPostFunction;
-  (window as any).deletePost = deletePostFunction;
-  (window as any).toggleComments = toggleComments;
-  (window as any).submitComment = submitComment;
-  (window as any).startReply = startReply;
-  (window as any).cancelReply = cancelReply;
-  (window as any).submitReply = submitReply;
-  (window as any).deleteCommentFunction = deleteCommentFunction;
-  (window as any).toggleReaction = handleToggleReaction;
-  (window as any).selectReaction = selectReaction;
-  (window as any).viewFullPost = viewFullPost;
-  (window as any).closeEditModal = closeEditModal;
-  (window as any).closeFullPostModal = closeFullPostModal;
-  (window as any).showReactionsModal = showReactionsModal;
-  (window as any).hideReactionsModal = hideReactionsModal;
-
-  // Define missing navigation functions
-  if (!window.navigateToProfile) {
-    (window as any).navigateToProfile = function (username: string) {
-      window.location.href = `/profile?user=${username}`;
-    };
+  listen(document, 'keydown', (e) => {
+    if (e.key === 'Escape') closeEditModal();
+  });
+
+  // Buttons and inputs in the feed name their handler in `data-action`
+  onCleanup(
+    delegateActions(
+      root,
+      feedActions,
+      reactionActions(handleToggleReaction),
+      commentThreadActions
+    )
+  );
+
+  initializeFeedInteractions(context);
+}
+
+/**
+ * Wires up the rendered feed; runs again whenever the feed is re-rendered
+ */
+function initializeFeedInteractions({ root }: ComponentContext): void {
+  // Create post composer, with the draft restored
+  initPostComposer(handleCreatePost);
+
+  // Handle edit post form
+  const editForm = document.getElementById(
+    'editPostForm'
+  ) as HTMLFormElement | null;
+  if (editForm) {
+    editForm.addEventListener('submit', handleEditPost);
   }
 
-  if (!window.navigateToPage) {
-    (window as any).navigateToPage = function (page: number) {
-      const url = new URL(window.location.href);
-      url.searchParams.set('page', page.toString());
-      window.location.href = url.toString();
-    };
+  // Everyone / Following tabs, each with its own pagination
+  root.querySelectorAll('[data-feed-tab]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const source = (button as HTMLElement).dataset.feedTab as FeedSource;
+      if (source === currentFeed.source) return;
+
+      const url = source === 'following' ? '/feed?feed=following' : '/feed';
+      history.pushState({ path: url }, '', url);
+      renderRoute(url);
+    });
+  });
+
+  // Tag filter chips
+  root.querySelectorAll('[data-filter-tag]').forEach((chip) => {
+    chip.addEventListener('click', () => {
+      const tag = (chip as HTMLElement).dataset.filterTag;
+      if (!tag) return;
+
+      const url = `/tags/${encodeURIComponent(tag)}`;
+      history.pushState({ path: url }, '', url);
+      renderRoute(url);
+    });
+  });
+
+  root.querySelector('[data-clear-tag]')?.addEventListener('click', () => {
+    history.pushState({ path: '/feed' }, '', '/feed');
+    renderRoute('/feed');
+  });
+
+  // Paged / continuous feed switch
+  root.querySelectorAll('[data-feed-mode]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const mode = (button as HTMLElement).dataset.feedMode as FeedMode;
+      if (mode === getFeedMode()) return;
+
+      setLocalItem(FEED_MODE_KEY, mode);
+      // Start from the top of the current feed in the new mode
+      const { pathname } = window.location;
+      const url =
+        currentFeed.source === 'following'
+          ? `${pathname}?feed=following`
+          : pathname;
+      history.replaceState({ path: url }, '', url);
+      renderRoute(url);
+    });
+  });
+
+  initializeInfiniteScroll();
+  initializeNewPostsPoller();
+
+  // Ask before navigating away from a half-written or half-edited post
+  registerLeaveGuard(hasUnsavedPostChanges);
+}
+
+/**
+ * Handlers for the `data-action` attributes of the feed, its post cards and
+ * their comments
+ */
+const feedActions: ActionHandlers = {
+  click: {
+    reload: () => window.location.reload(),
+    'go-to-page': (button) => navigateToPage(Number(button.dataset.page)),
+    'toggle-post-menu': (button) => togglePostMenu(getPostId(button)),
+    'edit-post': (link, event) => {
+      event.preventDefault();
+      editPostFunction(getPostId(link));
+    },
+    'delete-post': (link, event) => {
+      event.preventDefault();
+      deletePostFunction(getPostId(link));
+    },
+    'close-edit-modal': closeEditModal,
+    'toggle-comments': (button) => toggleComments(getPostId(button)),
+    'show-more-comments': (button) => showMoreComments(getPostId(button)),
+    'submit-comment': (button) => submitComment(getPostId(button)),
+    'start-reply': (button) =>
+      startReply(getCommentId(button), button.dataset.author || ''),
+    'cancel-reply': (button) => cancelReply(getCommentId(button)),
+    'submit-reply': (button) =>
+      submitReply(getPostId(button), getCommentId(button)),
+    'delete-comment': (button) =>
+      deleteCommentFunction(getPostId(button), getCommentId(button)),
+  },
+  change: {
+    'sort-comments': (select) =>
+      changeCommentSort(
+        getPostId(select),
+        (select as HTMLSelectElement).value as CommentSort
+      ),
+  },
+  input: {
+    'count-characters': (input) => updateCharCounter(input as HTMLInputElement),
+  },
+  keydown: {
+    'submit-comment': (input, event) => {
+      if (event.key === 'Enter') submitComment(getPostId(input));
+    },
+    'submit-reply': (input, event) => {
+      if (event.key === 'Enter') {
+        submitReply(getPostId(input), getCommentId(input));
+      }
+    },
+  },
+};
+
+// Actions find their post and comment from the card and comment they are in
+function getPostId(element: HTMLElement): number {
+  return Number(element.closest<HTMLElement>('[data-post-id]')?.dataset.postId);
+}
+
+function getCommentId(element: HTMLElement): number {
+  return Number(
+    element.closest<HTMLElement>('[data-comment-id]')?.dataset.commentId
+  );
+}
+
+/**
+ * Opens a page of the paged feed
+ */
+function navigateToPage(page: number): void {
+  const url = new URL(window.location.href);
+  url.searchParams.set('page', page.toString());
+  window.location.href = url.toString();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Feed Sources                                 */
+/* -------------------------------------------------------------------------- */
+
+type FeedSource = 'global' | 'following' | 'tag';
+
+interface FeedView {
+  source: FeedSource;
+  tag: string | null;
+}
+
+const MAX_FILTER_TAGS = 10;
+
+// The feed shown by the last render, used by tabs and infinite scroll
+let currentFeed: FeedView = { source: 'global', tag: null };
+
+/**
+ * Picks the feed to show from the route: the `:tag` param of a tag page, or
+ * the `feed` query parameter for the Everyone / Following tabs
+ */
+function getFeedView(
+  params: RouteContext['params'],
+  query: RouteContext['query']
+): FeedView {
+  if (params.tag) return { source: 'tag', tag: params.tag };
+
+  return {
+    source: query.get('feed') === 'following' ? 'following' : 'global',
+    tag: null,
+  };
+}
+
+/**
+ * Loads a page of the given feed; guests always see public posts
+ */
+function fetchFeedPosts(feed: FeedView, limit: number, page: number) {
+  if (!isLoggedIn()) return getPublicPosts(limit, page);
+
+  if (feed.source === 'tag' && feed.tag) {
+    return getPostsByTag(feed.tag, limit, page);
   }
+
+  return feed.source === 'following'
+    ? getFollowingPosts(limit, page)
+    : getAllPosts(limit, page);
+}
+
+/**
+ * Checks whether the edit modal holds changes not yet saved. The create
+ * form's draft is saved as it is typed, so leaving doesn't lose it.
+ */
+function hasUnsavedPostChanges(): boolean {
+  const editModal = document.getElementById('editPostModal');
+  if (!editModal || editModal.style.display !== 'flex') return false;
+
+  // Without the post to compare with, assume the user changed something
+  const post = getCachedPost(Number(editModal.dataset.postId));
+  if (!post) return true;
+
+  const fields = readEditPostForm();
+  return (
+    fields.title !== post.title.trim() ||
+    fields.body !== (post.body || '').trim() ||
+    fields.tags.join(',') !== (post.tags || []).join(',') ||
+    fields.imageUrl !== (post.media?.url || '') ||
+    fields.imageAlt !== (post.media?.alt || '')
+  );
 }
 
 /* -------------------------------------------------------------------------- */
-/*                                Post Create                                 */
+/*                              Infinite Scroll                               */
 /* -------------------------------------------------------------------------- */
 
-async function handleCreatePost(event: Event): Promise<void> {
-  event.preventDefault();
+const FEED_MODE_KEY = 'feedMode';
+const POSTS_PER_PAGE = 15;
+// Start loading the next page this far before the sentinel is on screen
+const SCROLL_THRESHOLD_PX = 600;
 
-  const form = event.target as HTMLFormElement;
-  const title = (
-    document.getElementById('post-title') as HTMLInputElement
-  )?.value.trim();
-  const body = (
-    document.getElementById('post-body') as HTMLTextAreaElement
-  )?.value.trim();
-  const rawTags = (
-    document.getElementById('post-tags') as HTMLInputElement
-  )?.value.trim();
-  const tags = rawTags
-    ? rawTags
-        .split(',')
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0)
-    : [];
-  const imageUrl = (
-    document.getElementById('post-image-url') as HTMLInputElement
-  )?.value.trim();
-  const imageAlt = (
-    document.getElementById('post-image-alt') as HTMLInputElement
-  )?.value.trim();
+type FeedMode = 'paged' | 'continuous';
 
-  if (!title || !body) {
-    alert('Title and Body are required.');
+interface InfiniteScrollState {
+  nextPage: number | null;
+  pagesLoaded: number;
+  isLoading: boolean;
+  observer: IntersectionObserver | null;
+  onScroll: (() => void) | null;
+}
+
+const infiniteScroll: InfiniteScrollState = {
+  nextPage: null,
+  pagesLoaded: 1,
+  isLoading: false,
+  observer: null,
+  onScroll: null,
+};
+
+/**
+ * Returns the remembered feed mode, defaulting to page buttons
+ */
+function getFeedMode(): FeedMode {
+  return getLocalItem(FEED_MODE_KEY) === 'continuous' ? 'continuous' : 'paged';
+}
+
+/**
+ * Number of pages that were loaded when the user last left this history entry
+ */
+function getRestoredFeedPages(): number {
+  const pages = Number(history.state?.feedPages);
+  return Number.isInteger(pages) && pages > 1 ? pages : 1;
+}
+
+/**
+ * Stores loaded pages and scroll position on the current history entry so
+ * back/forward navigation can restore them
+ */
+function saveFeedScrollState(): void {
+  history.replaceState(
+    {
+      ...history.state,
+      feedPages: infiniteScroll.pagesLoaded,
+      feedScrollY: window.scrollY,
+    },
+    ''
+  );
+}
+
+function teardownInfiniteScroll(): void {
+  infiniteScroll.observer?.disconnect();
+  infiniteScroll.observer = null;
+
+  if (infiniteScroll.onScroll) {
+    window.removeEventListener('scroll', infiniteScroll.onScroll);
+    infiniteScroll.onScroll = null;
+  }
+
+  history.scrollRestoration = 'auto';
+}
+
+function isSentinelNearViewport(sentinel: HTMLElement): boolean {
+  return (
+    sentinel.getBoundingClientRect().top <
+    window.innerHeight + SCROLL_THRESHOLD_PX
+  );
+}
+
+function initializeInfiniteScroll(): void {
+  teardownInfiniteScroll();
+
+  const sentinel = document.getElementById('feed-sentinel');
+  if (!sentinel) return;
+
+  const nextPage = parseInt(sentinel.dataset.nextPage || '', 10);
+  infiniteScroll.nextPage = Number.isNaN(nextPage) ? null : nextPage;
+  infiniteScroll.pagesLoaded = parseInt(sentinel.dataset.pagesLoaded || '1');
+  infiniteScroll.isLoading = false;
+
+  // Restore the scroll position ourselves since posts load asynchronously
+  history.scrollRestoration = 'manual';
+  const savedScrollY = history.state?.feedScrollY;
+  if (typeof savedScrollY === 'number') {
+    window.scrollTo(0, savedScrollY);
+  }
+
+  infiniteScroll.onScroll = throttle(() => {
+    if (!document.getElementById('feed-sentinel')) {
+      teardownInfiniteScroll();
+      return;
+    }
+    saveFeedScrollState();
+
+    // Fallback for browsers without IntersectionObserver
+    if (!infiniteScroll.observer && isSentinelNearViewport(sentinel)) {
+      loadNextFeedPage();
+    }
+  }, 200);
+  window.addEventListener('scroll', infiniteScroll.onScroll);
+
+  if ('IntersectionObserver' in window) {
+    infiniteScroll.observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadNextFeedPage();
+        }
+      },
+      { rootMargin: `0px 0px ${SCROLL_THRESHOLD_PX}px 0px` }
+    );
+    infiniteScroll.observer.observe(sentinel);
+  }
+}
+
+/**
+ * Appends the next page of posts to the feed
+ */
+async function loadNextFeedPage(): Promise<void> {
+  if (infiniteScroll.isLoading || infiniteScroll.nextPage === null) return;
+
+  const postsContainer = document.getElementById('posts-container');
+  const sentinel = document.getElementById('feed-sentinel');
+  if (!postsContainer || !sentinel) {
+    teardownInfiniteScroll();
     return;
   }
 
+  infiniteScroll.isLoading = true;
+  sentinel.innerHTML = '<div class="loading-spinner-small"></div>';
+
+  try {
+    const response = await fetchFeedPosts(
+      currentFeed,
+      POSTS_PER_PAGE,
+      infiniteScroll.nextPage
+    );
+
+    postsContainer.insertAdjacentHTML(
+      'beforeend',
+      response.data.map((post, index) => postCard(post, index * 0.05)).join('')
+    );
+    store.dispatch({
+      type: 'posts/loaded',
+      posts: [...store.getState().posts, ...response.data],
+    });
+
+    infiniteScroll.pagesLoaded = response.meta.currentPage;
+    infiniteScroll.nextPage = response.meta.isLastPage
+      ? null
+      : response.meta.nextPage;
+    saveFeedScrollState();
+
+    if (infiniteScroll.nextPage === null) {
+      sentinel.innerHTML = `<p class="feed-end">🎉 You're all caught up!</p>`;
+      // Keep saving the scroll position, but stop watching for more pages
+      infiniteScroll.observer?.disconnect();
+      infiniteScroll.observer = null;
+    }
+  } catch (error) {
+    // The user navigated away; nothing to show
+    if (isAbortError(error)) return;
+
+    console.error('Error loading more posts:', error);
+    sentinel.innerHTML = `
+      <p class="feed-end">Couldn't load more posts.</p>
+      <button class="load-more-btn" type="button">Try again</button>
+    `;
+    sentinel
+      .querySelector('button')
+      ?.addEventListener('click', () => loadNextFeedPage());
+    return;
+  } finally {
+    infiniteScroll.isLoading = false;
+  }
+
+  // A short page may leave the sentinel on screen without a new intersection
+  if (infiniteScroll.nextPage !== null && isSentinelNearViewport(sentinel)) {
+    loadNextFeedPage();
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               New Posts Banner                             */
+/* -------------------------------------------------------------------------- */
+
+const NEW_POSTS_POLL_INTERVAL = 30 * 1000;
+const NEW_POSTS_MAX_INTERVAL = 5 * 60 * 1000;
+
+let newPostsPoller: Poller | null = null;
+// Posts found by the poller that the user hasn't asked to see yet
+let pendingNewPosts: NoroffPost[] = [];
+
+/**
+ * Polls for posts newer than the ones shown, as long as the feed's first
+ * page is on screen. Search results, later pages and the public sample feed
+ * don't get new posts.
+ */
+function initializeNewPostsPoller(): void {
+  newPostsPoller?.stop();
+  pendingNewPosts = [];
+
+  const page = parseInt(
+    new URLSearchParams(window.location.search).get('page') || '1',
+    10
+  );
+  const isFirstPage = getFeedMode() === 'continuous' || page <= 1;
+  if (!isLoggedIn() || store.getState().search.query !== null || !isFirstPage) {
+    return;
+  }
+
+  document
+    .getElementById('new-posts-banner')
+    ?.addEventListener('click', showNewPosts);
+
+  newPostsPoller = createPoller(checkForNewPosts, {
+    interval: NEW_POSTS_POLL_INTERVAL,
+    maxInterval: NEW_POSTS_MAX_INTERVAL,
+  });
+  newPostsPoller.start();
+}
+
+/**
+ * Returns the highest post id in the feed; ids grow as posts are created
+ */
+function getNewestShownPostId(): number {
+  const ids = [
+    ...Array.from(
+      document.querySelectorAll<HTMLElement>('#posts-container .post-card'),
+      (card) => Number(card.dataset.postId) || 0
+    ),
+    ...pendingNewPosts.map((post) => post.id),
+  ];
+  return Math.max(0, ...ids);
+}
+
+async function checkForNewPosts(): Promise<void> {
+  // The feed is no longer on screen
+  if (!document.getElementById('posts-container')) {
+    newPostsPoller?.stop();
+    return;
+  }
+
+  const newestId = getNewestShownPostId();
+  const latest = await getLatestPosts(
+    currentFeed.source === 'following' ? 'following' : 'all',
+    20,
+    currentFeed.tag ? { filters: { _tag: currentFeed.tag } } : {}
+  );
+  const newPosts = latest.filter((post) => post.id > newestId);
+  if (newPosts.length === 0) return;
+
+  pendingNewPosts = [...newPosts, ...pendingNewPosts].sort(
+    (a, b) => b.id - a.id
+  );
+  renderNewPostsBanner();
+}
+
+function renderNewPostsBanner(): void {
+  const banner = document.getElementById('new-posts-banner');
+  if (!banner) return;
+
+  const count = pendingNewPosts.length;
+  banner.textContent = `⬆ ${count} new post${count === 1 ? '' : 's'}`;
+  banner.hidden = count === 0;
+}
+
+/**
+ * Adds the pending new posts to the top of the feed. The page is scrolled by
+ * the height they add, so whatever the user was reading stays in place.
+ */
+function showNewPosts(): void {
+  const container = document.getElementById('posts-container');
+  if (!container || pendingNewPosts.length === 0) return;
+
+  const heightBefore = container.offsetHeight;
+  const isAboveFeed = window.scrollY <= container.offsetTop;
+
+  container.querySelector('.empty-state')?.remove();
+  container.insertAdjacentHTML(
+    'afterbegin',
+    pendingNewPosts.map((post) => postCard(post)).join('')
+  );
+  pendingNewPosts = [];
+  renderNewPostsBanner();
+
+  if (!isAboveFeed) {
+    window.scrollBy(0, container.offsetHeight - heightBefore);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Post Create                                 */
+/* -------------------------------------------------------------------------- */
+
+async function handleCreatePost(
+  draft: PostDraft,
+  form: HTMLFormElement
+): Promise<void> {
+  const { title, body, tags, imageUrl, imageAlt } = draft;
+
   try {
     const submitBtn = form.querySelector(
       "button[type='submit']"
@@ -447,8 +1051,10 @@ async function handleCreatePost(event: Event): Promise<void> {
     submitBtn.disabled = true;
     submitBtn.textContent = 'Posting...';
 
-    const payload: any = { title, body, tags };
-    if (imageUrl) payload.media = { url: imageUrl, alt: imageAlt || 'image' };
+    const payload: any = { title: title.trim(), body: body.trim(), tags };
+    if (imageUrl) {
+      payload.media = { url: imageUrl, alt: imageAlt.trim() || 'image' };
+    }
 
     const created = await createPost(payload);
     const safePost: NoroffPost = {
@@ -467,20 +1073,7 @@ async function handleCreatePost(event: Event): Promise<void> {
       if (el) postsContainer.insertBefore(el, postsContainer.firstChild);
     }
 
-    // Reset and collapse form
-    form.reset();
-    const postBox = document.getElementById('create-post-box');
-    const collapsedInput = document.getElementById('collapsed-input');
-    const expandedFields = postBox?.querySelector(
-      '.expanded-fields'
-    ) as HTMLElement;
-
-    if (postBox && collapsedInput && expandedFields) {
-      postBox.classList.remove('expanded');
-      postBox.classList.add('collapsed');
-      expandedFields.style.display = 'none';
-      collapsedInput.style.display = 'block';
-    }
+    resetPostComposer();
 
     submitBtn.disabled = false;
     submitBtn.textContent = 'Post';
@@ -488,7 +1081,17 @@ async function handleCreatePost(event: Event): Promise<void> {
     showNotification('✅ Post created successfully!', 'success');
   } catch (err: any) {
     console.error('Error creating post:', err);
-    alert(err?.message || 'Failed to create post. Please try again.');
+    if (err instanceof QueuedError) {
+      // Saved in the outbox; it shows up in the feed once it has been sent
+      resetPostComposer();
+      showNotification(`📴 ${err.message}`, 'info');
+    } else {
+      alert(
+        err instanceof ValidationError
+          ? err.errors.join('\n')
+          : err?.message || 'Failed to create post. Please try again.'
+      );
+    }
     const submitBtn = form.querySelector(
       "button[type='submit']"
     ) as HTMLButtonElement;
@@ -521,19 +1124,24 @@ function editPostFunction(postId: number): void {
   const postElement = document.getElementById(`post-${postId}`);
   if (!postElement) return;
 
-  const title =
-    postElement.querySelector('.post-title-compact')?.textContent || '';
-  const body = postElement.querySelector('.post-body')?.textContent || '';
-  const tags = Array.from(postElement.querySelectorAll('.tag-compact'))
-    .map((tag) => tag.textContent?.replace('#', '') || '')
-    .filter((tag) => tag.length > 0);
-
-  // Find media info if exists
+  // The card shows formatted, shortened text; edit the post as it was written
+  const post = getCachedPost(postId);
   const mediaImg = postElement.querySelector(
     '.post-image-preview'
   ) as HTMLImageElement;
-  const imageUrl = mediaImg?.src || '';
-  const imageAlt = mediaImg?.alt || '';
+
+  const title =
+    post?.title ??
+    (postElement.querySelector('.post-title-compact')?.textContent || '');
+  const body =
+    post?.body ?? (postElement.querySelector('.post-body')?.textContent || '');
+  const tags =
+    post?.tags ??
+    Array.from(postElement.querySelectorAll('.tag-compact'))
+      .map((tag) => tag.textContent?.replace('#', '') || '')
+      .filter((tag) => tag.length > 0);
+  const imageUrl = post ? post.media?.url || '' : mediaImg?.src || '';
+  const imageAlt = post ? post.media?.alt || '' : mediaImg?.alt || '';
 
   // Populate edit form
   (document.getElementById('editPostTitle') as HTMLInputElement).value = title;
@@ -556,6 +1164,32 @@ function editPostFunction(postId: number): void {
   togglePostMenu(postId);
 }
 
+/**
+ * Reads the edit modal's fields, trimmed as they would be saved
+ */
+function readEditPostForm(): {
+  title: string;
+  body: string;
+  tags: string[];
+  imageUrl: string;
+  imageAlt: string;
+} {
+  const value = (id: string) =>
+    (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ||
+    '';
+
+  return {
+    title: value('editPostTitle'),
+    body: value('editPostBody'),
+    tags: value('editPostTags')
+      .split(',')
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0),
+    imageUrl: value('editPostImageUrl'),
+    imageAlt: value('editPostImageAlt'),
+  };
+}
+
 async function handleEditPost(event: Event): Promise<void> {
   event.preventDefault();
 
@@ -563,95 +1197,24 @@ async function handleEditPost(event: Event): Promise<void> {
   const postId = Number(modal?.dataset.postId);
   if (!postId) return;
 
-  const title = (
-    document.getElementById('editPostTitle') as HTMLInputElement
-  ).value.trim();
-  const body = (
-    document.getElementById('editPostBody') as HTMLTextAreaElement
-  ).value.trim();
-  const rawTags = (
-    document.getElementById('editPostTags') as HTMLInputElement
-  ).value.trim();
-  const tags = rawTags
-    ? rawTags
-        .split(',')
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0)
-    : [];
-  const imageUrl = (
-    document.getElementById('editPostImageUrl') as HTMLInputElement
-  ).value.trim();
-  const imageAlt = (
-    document.getElementById('editPostImageAlt') as HTMLInputElement
-  ).value.trim();
+  const { title, body, tags, imageUrl, imageAlt } = readEditPostForm();
 
   if (!title || !body) {
     alert('Title and Body are required.');
     return;
   }
 
-  try {
-    const submitBtn = modal?.querySelector(
-      'button[type="submit"]'
-    ) as HTMLButtonElement;
-    submitBtn.disabled = true;
-    submitBtn.textContent = 'Updating...';
-
-    const payload: any = { title, body, tags };
-    if (imageUrl) payload.media = { url: imageUrl, alt: imageAlt || 'image' };
-
-    const updated = await updatePost(postId, payload);
-
-    // Update the post in the UI
-    const postElement = document.getElementById(`post-${postId}`);
-    if (postElement) {
-      // Update title and body
-      const titleEl = postElement.querySelector('.post-title-compact');
-      const bodyEl = postElement.querySelector('.post-body');
-      if (titleEl) titleEl.textContent = updated.title;
-      if (bodyEl) bodyEl.textContent = updated.body;
-
-      // Update tags
-      const tagsContainer = postElement.querySelector('.post-tags-compact');
-      if (tagsContainer && updated.tags) {
-        tagsContainer.innerHTML =
-          updated.tags
-            .slice(0, 2)
-            .map((tag) => `<span class="tag-compact">#${tag}</span>`)
-            .join('') +
-          (updated.tags.length > 2
-            ? `<span class="tag-more">+${updated.tags.length - 2}</span>`
-            : '');
-      }
+  const payload: any = { title, body, tags };
+  if (imageUrl) payload.media = { url: imageUrl, alt: imageAlt || 'image' };
 
-      // Update media if changed
-      if (updated.media?.url) {
-        let mediaContainer = postElement.querySelector('.post-media-preview');
-        if (!mediaContainer) {
-          mediaContainer = document.createElement('div');
-          mediaContainer.className = 'post-media-preview';
-          postElement.insertBefore(mediaContainer, postElement.firstChild);
-        }
-        mediaContainer.innerHTML = `<img src="${updated.media.url}" alt="${updated.media.alt || 'Post image'}" class="post-image-preview">`;
-      }
-    }
-
-    closeEditModal();
-    showNotification('✅ Post updated successfully!', 'success');
+  // The card shows the edit straight away and is rolled back if it fails
+  closeEditModal();
 
-    submitBtn.disabled = false;
-    submitBtn.textContent = '💾 Update Post';
+  try {
+    await updatePost(postId, payload);
   } catch (error) {
     console.error('Error updating post:', error);
-    alert('Failed to update post. Please try again.');
-
-    const submitBtn = modal?.querySelector(
-      'button[type="submit"]'
-    ) as HTMLButtonElement;
-    if (submitBtn) {
-      submitBtn.disabled = false;
-      submitBtn.textContent = '💾 Update Post';
-    }
+    showPostError(postId, 'Failed to update post. Your changes were undone.');
   }
 }
 
@@ -665,22 +1228,53 @@ async function deletePostFunction(postId: number): Promise<void> {
     return;
   }
 
+  togglePostMenu(postId);
+
   try {
+    // The card is hidden right away and comes back if the delete fails
     await deletePost(postId);
-    const postElement = document.getElementById(`post-${postId}`);
-    if (postElement) {
-      postElement.style.opacity = '0';
-      postElement.style.transform = 'translateY(-20px)';
-      setTimeout(() => postElement.remove(), 300);
-    }
-
     showNotification('✅ Post deleted successfully!', 'success');
   } catch (error) {
     console.error('Error deleting post:', error);
-    alert('Failed to delete post. Please try again.');
+    showPostError(postId, 'Failed to delete post. Please try again.');
   }
+}
 
-  togglePostMenu(postId);
+function showPostError(postId: number, message: string): void {
+  const actions = document.querySelector(
+    `#post-${postId} .post-actions-compact`
+  );
+  if (actions) showInlineError(actions, message);
+}
+
+/**
+ * Re-renders a post card with fresh data, keeping its comments section as is
+ */
+function refreshPostCard(card: HTMLElement, post: NoroffPost): void {
+  const comments = card.querySelector('.comments-section');
+  const template = document.createElement('template');
+  template.innerHTML = postCard(post).trim();
+
+  const updatedCard = template.content.firstElementChild as HTMLElement | null;
+  if (!updatedCard) return;
+
+  updatedCard.style.animation = 'none';
+  if (comments) {
+    updatedCard.querySelector('.comments-section')?.replaceWith(comments);
+  }
+  card.replaceWith(updatedCard);
+}
+
+/**
+ * Fades a deleted post's card out. It stays in the DOM, hidden, so a failed
+ * delete can render it again.
+ */
+function removePostCard(card: HTMLElement): void {
+  card.style.opacity = '0';
+  card.style.transform = 'translateY(-20px)';
+  setTimeout(() => {
+    card.hidden = true;
+  }, 300);
 }
 
 function closeEditModal(): void {
@@ -711,11 +1305,103 @@ async function toggleComments(postId: number): Promise<void> {
 }
 
 async function loadComments(postId: number): Promise<void> {
+  try {
+    renderComments(postId, await getPostComments(String(postId)));
+  } catch (error) {
+    console.error('Error loading comments:', error);
+    renderComments(postId, []);
+  }
+}
+
+// Top-level comments shown at first and added by "show more"
+const COMMENT_THREADS_STEP = 10;
+
+interface CommentView {
+  sort: CommentSort;
+  /** Number of top-level comments shown */
+  limit: number;
+}
+
+// How each post's comments are shown
+const commentViews = new Map<number, CommentView>();
+
+function getCommentView(postId: number): CommentView {
+  return (
+    commentViews.get(postId) || { sort: 'oldest', limit: COMMENT_THREADS_STEP }
+  );
+}
+
+function renderComments(postId: number, comments: Comment[]): void {
   const commentsList = document.getElementById(`comments-list-${postId}`);
   if (!commentsList) return;
 
+  const { sort, limit } = getCommentView(postId);
+  const { comments: shown, hiddenThreads } = takeCommentThreads(comments, {
+    sort,
+    limit,
+  });
+
   commentsList.innerHTML =
-    '<div class="no-comments">No comments yet. Be the first to comment!</div>';
+    shown.length > 0
+      ? renderCommentThread(shown, {
+          sort,
+          renderComment: renderCommentItem,
+        })
+      : '<div class="no-comments">No comments yet. Be the first to comment!</div>';
+
+  if (hiddenThreads > 0) {
+    commentsList.insertAdjacentHTML(
+      'beforeend',
+      `<button type="button" class="load-more-comments-btn" data-action="show-more-comments" data-post-id="${postId}">
+        Show ${Math.min(hiddenThreads, COMMENT_THREADS_STEP)} more of ${hiddenThreads} comments
+      </button>`
+    );
+  }
+
+  const sortSelect = document.querySelector<HTMLSelectElement>(
+    `#comments-${postId} .comment-sort`
+  );
+  if (sortSelect) sortSelect.value = sort;
+}
+
+function changeCommentSort(postId: number, sort: CommentSort): void {
+  // A new order starts again from the first comments
+  commentViews.set(postId, { sort, limit: COMMENT_THREADS_STEP });
+  renderComments(postId, getCachedComments(postId) || []);
+}
+
+function showMoreComments(postId: number): void {
+  const view = getCommentView(postId);
+  commentViews.set(postId, {
+    ...view,
+    limit: view.limit + COMMENT_THREADS_STEP,
+  });
+  renderComments(postId, getCachedComments(postId) || []);
+}
+
+/**
+ * Shows how much of an input's `maxlength` is used, next to the input
+ */
+function updateCharCounter(input: HTMLInputElement): void {
+  const counter = input.parentElement?.querySelector('.char-counter');
+  if (!counter) return;
+
+  const { length } = input.value;
+  counter.textContent = `${length}/${input.maxLength}`;
+  counter.classList.toggle('near-limit', length >= input.maxLength - 20);
+}
+
+/**
+ * Maps a failed comment request to a message for the comment form
+ */
+function getCommentErrorMessage(error: unknown): string {
+  if (error instanceof AuthError) return 'Please log in to comment on posts.';
+  if (error instanceof NotFoundError) {
+    return 'Post not found. Please refresh the page.';
+  }
+  if (error instanceof ValidationError) return error.errors.join(' ');
+  if (error instanceof OfflineError) return error.message;
+  return 'Failed to post comment. Please try again.';
 }
 
 async function submitComment(postId: number): Promise<void> {
@@ -723,6 +1409,7 @@ async function submitComment(postId: number): Promise<void> {
     `comment-input-${postId}`
   ) as HTMLInputElement;
   const commentText = input?.value.trim();
+  const form = input?.closest('.comment-form');
 
   if (!commentText) {
     input?.focus();
@@ -734,138 +1421,105 @@ async function submitComment(postId: number): Promise<void> {
     return;
   }
 
-  const submitBtn = document.querySelector(
-    `[onclick="submitComment(${postId})"]`
-  ) as HTMLButtonElement;
+  // The comment shows up as pending while it is being saved
+  input.value = '';
+  updateCharCounter(input);
+  if (form) clearInlineError(form);
 
   try {
-    // Disable button and show loading
-    if (submitBtn) {
-      submitBtn.disabled = true;
-      submitBtn.innerHTML = '<div class="loading-spinner-small"></div>';
-    }
-
-    // Create the comment using the correct API
-    const response = await createComment(postId.toString(), commentText);
-
-    console.log('Comment created successfully:', response);
-
-    // Clear input
-    input.value = '';
-
-    // Since we can't fetch comments, we'll add the comment to the UI manually
-    addCommentToUI(postId, {
-      id: response.data.id,
-      body: commentText,
-      author: {
-        name: getLocalItem('user') || 'You',
-        email: '',
-        avatar: null,
-      },
-      created: new Date().toISOString(),
-      postId: postId.toString(),
-      replyToId: null,
-      owner: getLocalItem('user') || '',
-      updated: new Date().toISOString(),
-    });
-
-    // Update comment count in post card
-    const commentCountEl = document.querySelector(
-      `[data-post-id="${postId}"].comment-btn .action-count-compact`
-    );
-    if (commentCountEl) {
-      const currentCount = parseInt(commentCountEl.textContent || '0');
-      commentCountEl.textContent = (currentCount + 1).toString();
-    }
-
-    showNotification('Comment added!', 'success');
-  } catch (error: any) {
+    await createComment(postId.toString(), commentText);
+  } catch (error) {
     console.error('Error creating comment:', error);
 
-    // Show specific error messages
-    if (error.message?.includes('unauthorized')) {
-      alert('Please log in to comment on posts.');
-    } else if (error.message?.includes('not found')) {
-      alert('Post not found. Please refresh the page.');
-    } else {
-      alert('Failed to post comment. Please try again.');
-    }
-  } finally {
-    // Re-enable button
-    if (submitBtn) {
-      submitBtn.disabled = false;
-      submitBtn.innerHTML = `
-        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-          <line x1="22" y1="2" x2="11" y2="13"></line>
-          <polygon points="22,2 15,22 11,13 2,9 22,2"></polygon>
-        </svg>
-      `;
+    // Give the text back so it isn't lost, unless it was queued
+    if (!input.value && !(error instanceof QueuedError)) {
+      input.value = commentText;
+      updateCharCounter(input);
     }
+    if (form) showInlineError(form, getCommentErrorMessage(error));
   }
 }
 
-function addCommentToUI(postId: number, comment: any): void {
-  const commentsList = document.getElementById(`comments-list-${postId}`);
-  if (!commentsList) return;
-
-  // Remove "no comments" message if it exists
-  const noCommentsMsg = commentsList.querySelector('.no-comments');
-  if (noCommentsMsg) {
-    noCommentsMsg.remove();
-  }
-
-  // Create comment HTML
-  const timeAgo = 'now';
-  const currentUserName = getLocalItem('user');
+function renderCommentItem(comment: Comment): string {
+  // Pending comments have no server id yet, so no actions
+  const isPending = isPendingComment(comment);
+  const timeAgo = isPending
+    ? 'Sending…'
+    : getTimeAgo(new Date(comment.created));
+  const currentUserName = getCurrentUser().user;
   const isOwner = currentUserName && comment.author.name === currentUserName;
-
-  const commentHTML = `
-    <div class="comment-item" data-comment-id="${comment.id}" style="animation-delay: 0s">
+  // Only ever a number in the element ids below
+  const commentId = Number(comment.id);
+
+  return html`
+    <div
+      class="comment-item${isPending ? ' pending' : ''}"
+      data-comment-id="${comment.id}"
+      style="animation-delay: 0s"
+    >
       <div class="comment-avatar">
-        <div class="comment-avatar-placeholder">${comment.author.name.charAt(0).toUpperCase()}</div>
+        <div class="comment-avatar-placeholder">
+          ${comment.author.name.charAt(0).toUpperCase()}
+        </div>
       </div>
       <div class="comment-content">
         <div class="comment-header">
           <span class="comment-author">${comment.author.name}</span>
           <span class="comment-time">${timeAgo}</span>
         </div>
-        <div class="comment-text">${comment.body}</div>
-        <div class="comment-actions">
-          <button class="comment-action-btn reply-btn" onclick="startReply(${comment.id}, '${comment.author.name}')">
-            Reply
-          </button>
-          ${
-            isOwner
-              ? `
-            <button class="comment-action-btn delete-btn" onclick="deleteCommentFunction(${postId}, ${comment.id})">
-              Delete
-            </button>
-          `
-              : ''
-          }
-        </div>
-        
-        <!-- Reply form (hidden by default) -->
-        <div class="reply-form" id="reply-form-${comment.id}" style="display: none;">
-          <div class="reply-input-container">
-            <input 
-              type="text" 
-              id="reply-input-${comment.id}" 
-              class="reply-input" 
-              placeholder="Write a reply..."
-              maxlength="280"
-              onkeypress="if(event.key === 'Enter') submitReply(${postId}, ${comment.id})"
-            >
-            <button class="reply-submit-btn" onclick="submitReply(${postId}, ${comment.id})">Send</button>
-            <button class="reply-cancel-btn" onclick="cancelReply(${comment.id})">Cancel</button>
-          </div>
-        </div>
+        <div class="comment-text">${raw(renderRichText(comment.body))}</div>
+        ${isPending
+          ? ''
+          : html`
+              <div class="comment-actions">
+                <button
+                  class="comment-action-btn reply-btn"
+                  data-action="start-reply"
+                  data-author="${comment.author.name}"
+                >
+                  Reply
+                </button>
+                ${isOwner
+                  ? html`
+                      <button
+                        class="comment-action-btn delete-btn"
+                        data-action="delete-comment"
+                      >
+                        Delete
+                      </button>
+                    `
+                  : ''}
+              </div>
+
+              <!-- Reply form (hidden by default) -->
+              <div
+                class="reply-form"
+                id="reply-form-${commentId}"
+                style="display: none;"
+              >
+                <div class="reply-input-container">
+                  <input
+                    type="text"
+                    id="reply-input-${commentId}"
+                    class="reply-input"
+                    placeholder="Write a reply..."
+                    maxlength="280"
+                    data-input-action="count-characters"
+                    data-keydown-action="submit-reply"
+                  />
+                  <span class="char-counter" aria-live="polite">0/280</span>
+                  <button class="reply-submit-btn" data-action="submit-reply">
+                    Send
+                  </button>
+                  <button class="reply-cancel-btn" data-action="cancel-reply">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            `}
       </div>
     </div>
-  `;
-
-  // Add the comment to the list
-  commentsList.insertAdjacentHTML('beforeend', commentHTML);
+  `.toString();
 }
 
 /* -------------------------------------------------------------------------- */
@@ -887,6 +1541,7 @@ function startReply(commentId: number, authorName: string): void {
   if (replyForm && replyInput) {
     replyForm.style.display = 'block';
     replyInput.value = `@${authorName} `;
+    updateCharCounter(replyInput);
     replyInput.focus();
     // Set cursor at end
     replyInput.setSelectionRange(
@@ -927,50 +1582,45 @@ async function submitReply(
     return;
   }
 
+  // Close the form right away; the reply shows up as pending
+  replyInput.value = '';
+  cancelReply(parentCommentId);
+  expandCommentThread(String(parentCommentId));
+
   try {
-    // Create reply using the createComment function with replyToId
-    const response = await createComment(
+    await createComment(
       postId.toString(),
       replyText,
       parentCommentId.toString()
     );
+  } catch (error) {
+    console.error('Error creating reply:', error);
 
-    // Clear and hide reply form
-    replyInput.value = '';
-    cancelReply(parentCommentId);
-
-    // Add the reply to the UI
-    addCommentToUI(postId, {
-      id: response.data.id,
-      body: replyText,
-      author: {
-        name: getLocalItem('user') || 'You',
-        email: '',
-        avatar: null,
-      },
-      created: new Date().toISOString(),
-      postId: postId.toString(),
-      replyToId: parentCommentId.toString(),
-      owner: getLocalItem('user') || '',
-      updated: new Date().toISOString(),
-    });
-
-    // Update comment count
-    const commentCountEl = document.querySelector(
-      `[data-post-id="${postId}"].comment-btn .action-count-compact`
-    );
-    if (commentCountEl) {
-      const currentCount = parseInt(commentCountEl.textContent || '0');
-      commentCountEl.textContent = (currentCount + 1).toString();
+    // Open the form again with the text, unless it was queued
+    if (!(error instanceof QueuedError)) {
+      reopenReply(parentCommentId, replyText);
     }
-
-    showNotification('Reply added!', 'success');
-  } catch (error: any) {
-    console.error('Error creating reply:', error);
-    alert('Failed to post reply. Please try again.');
+    const form = document.querySelector(`#comments-${postId} .comment-form`);
+    if (form) showInlineError(form, getCommentErrorMessage(error));
   }
 }
 
+/**
+ * Shows a reply form again with the text of a reply that couldn't be sent
+ */
+function reopenReply(commentId: number, replyText: string): void {
+  const replyForm = document.getElementById(`reply-form-${commentId}`);
+  const replyInput = document.getElementById(
+    `reply-input-${commentId}`
+  ) as HTMLInputElement;
+  // The user started typing something else meanwhile
+  if (!replyForm || !replyInput || replyInput.value) return;
+
+  replyForm.style.display = 'block';
+  replyInput.value = replyText;
+  updateCharCounter(replyInput);
+}
+
 /* -------------------------------------------------------------------------- */
 /*                           Delete Comment                                   */
 /* -------------------------------------------------------------------------- */
@@ -984,31 +1634,15 @@ async function deleteCommentFunction(
   }
 
   try {
+    // The comment disappears right away and comes back if the delete fails
     await deleteComment(postId.toString(), commentId.toString());
+  } catch (error) {
+    console.error('Error deleting comment:', error);
 
-    // Remove comment from UI with proper typing
-    const commentElement = document.querySelector(
-      `[data-comment-id="${commentId}"]`
-    ) as HTMLElement;
-    if (commentElement) {
-      commentElement.style.opacity = '0';
-      commentElement.style.transform = 'translateX(-20px)';
-      setTimeout(() => commentElement.remove(), 300);
+    const form = document.querySelector(`#comments-${postId} .comment-form`);
+    if (form) {
+      showInlineError(form, 'Failed to delete comment. Please try again.');
     }
-
-    // Update comment count
-    const commentCountEl = document.querySelector(
-      `[data-post-id="${postId}"].comment-btn .action-count-compact`
-    );
-    if (commentCountEl) {
-      const currentCount = parseInt(commentCountEl.textContent || '0');
-      commentCountEl.textContent = Math.max(0, currentCount - 1).toString();
-    }
-
-    showNotification('Comment deleted!', 'success');
-  } catch (error: any) {
-    console.error('Error deleting comment:', error);
-    alert('Failed to delete comment. Please try again.');
   }
 }
 
@@ -1026,129 +1660,16 @@ async function handleToggleReaction(
   }
 
   try {
-    const wasAdded = await toggleReaction(postId.toString(), emoji);
-
-    const reactionCount = document.querySelector(
-      `[data-post-id="${postId}"].like-btn .action-count-compact`
-    );
-    if (reactionCount) {
-      const currentCount = parseInt(reactionCount.textContent || '0');
-      reactionCount.textContent = wasAdded
-        ? (currentCount + 1).toString()
-        : Math.max(0, currentCount - 1).toString();
-    }
-
-    const likeBtn = document.querySelector(
-      `[data-post-id="${postId}"].like-btn`
-    );
-    if (likeBtn) {
-      if (wasAdded) {
-        likeBtn.classList.add('reacted');
-      } else {
-        likeBtn.classList.remove('reacted');
-      }
-    }
+    // The card updates right away and is corrected if the request fails
+    await togglePostReaction(postId, emoji);
   } catch (error) {
     console.error('Error toggling reaction:', error);
-    alert('Failed to react to post. Please try again.');
-  }
-}
-
-function selectReaction(postId: number, emoji: string): void {
-  handleToggleReaction(postId, emoji);
-
-  // Hide reactions modal
-  const reactionsModal = document.getElementById(`reactions-${postId}`);
-  if (reactionsModal) {
-    reactionsModal.style.display = 'none';
-  }
-}
-
-function showReactionsModal(postId: number): void {
-  const modal = document.getElementById(`reactions-${postId}`);
-  if (modal) {
-    modal.style.display = 'block';
-  }
-}
-
-function hideReactionsModal(postId: number): void {
-  setTimeout(() => {
-    const modal = document.getElementById(`reactions-${postId}`);
-    if (modal && !modal.matches(':hover')) {
-      modal.style.display = 'none';
-    }
-  }, 200);
-}
-
-/* -------------------------------------------------------------------------- */
-/*                           Full Post View                                   */
-/* -------------------------------------------------------------------------- */
-
-function viewFullPost(postId: number): void {
-  const postElement = document.getElementById(`post-${postId}`);
-  if (!postElement) return;
-
-  const title =
-    postElement.querySelector('.post-title-compact')?.textContent || '';
-  const body = postElement.querySelector('.post-body')?.textContent || '';
-  const author =
-    postElement.querySelector('.author-name-compact')?.textContent || '';
-  const time =
-    postElement.querySelector('.post-time-compact')?.textContent || '';
-  const mediaImg = postElement.querySelector(
-    '.post-image-preview'
-  ) as HTMLImageElement;
-
-  const fullPostContent = document.getElementById('fullPostContent');
-  if (!fullPostContent) return;
-
-  fullPostContent.innerHTML = `
-    <div class="full-post-view">
-      <div class="full-post-header">
-        <div class="author-info">
-          <div class="author-avatar">
-            ${author.charAt(0).toUpperCase()}
-          </div>
-          <div class="author-details">
-            <h4 class="author-name">${author}</h4>
-            <p class="post-time">${time}</p>
-          </div>
-        </div>
-      </div>
-      
-      ${
-        mediaImg
-          ? `
-        <div class="full-post-media">
-          <img src="${mediaImg.src}" alt="${mediaImg.alt}" style="width: 100%; border-radius: 8px; margin: 1rem 0;">
-        </div>
-      `
-          : ''
-      }
-      
-      <div class="full-post-content">
-        ${title ? `<h2>${title}</h2>` : ''}
-        <div class="post-text">${body}</div>
-      </div>
-      
-      <div class="full-post-actions">
-        <button class="btn btn-secondary" onclick="toggleComments(${postId}); closeFullPostModal();">
-          View Comments
-        </button>
-      </div>
-    </div>
-  `;
-
-  const modal = document.getElementById('fullPostModal');
-  if (modal) {
-    modal.style.display = 'flex';
-  }
-}
-
-function closeFullPostModal(): void {
-  const modal = document.getElementById('fullPostModal');
-  if (modal) {
-    modal.style.display = 'none';
+    showPostError(
+      postId,
+      error instanceof QueuedError
+        ? error.message
+        : 'Failed to react to post. Please try again.'
+    );
   }
 }
 
@@ -1162,11 +1683,9 @@ function showNotification(
 ): void {
   const notification = document.createElement('div');
   notification.className = `notification ${type}-notification`;
-  notification.innerHTML = `
-    <div class="notification-content">
-      ${message}
-    </div>
-  `;
+  notification.innerHTML = html`
+    <div class="notification-content">${message}</div>
+  `.toString();
   notification.style.cssText = `
     position: fixed;
     top: 90px;
@@ -4,6 +4,16 @@
  * @author [Your Name]
  */
 
+let sharedLoadingScreen: LoadingScreen | null = null;
+
+/**
+ * Returns the app's loading screen, creating it on first use
+ */
+export function getLoadingScreen(): LoadingScreen {
+  if (!sharedLoadingScreen) sharedLoadingScreen = new LoadingScreen();
+  return sharedLoadingScreen;
+}
+
 export default class LoadingScreen {
   constructor() {
     this.init();
@@ -5,219 +5,30 @@
  */
 
 import { renderRoute } from '../router';
+import { getSafeRedirect } from '../router/guards';
 import { loginUser, fetchApiKey } from '../services/api/client.js';
-import { setLocalItem } from '../utils/storage.js';
+import {
+  consumeSessionNotice,
+  resumeSession,
+} from '../services/auth/session.js';
+import { store } from '../store';
+import { getLoadingScreen } from './LoadingScreen';
 import type {
   LoginCredentials,
   ApiResponse,
   LoginResponse,
+  ComponentContext,
+  PageComponent,
 } from '../types/index.js';
 
-export default async function LoginPage() {
-  // Set up event listeners after DOM is updated
-  setTimeout(() => {
-    const form = document.getElementById('loginForm') as HTMLFormElement;
-    if (form) {
-      const submitBtn = form.querySelector(
-        "button[type='submit']"
-      ) as HTMLButtonElement;
+const LoginPage: PageComponent = {
+  render: renderLoginPage,
+  mount: mountLoginPage,
+};
 
-      form.addEventListener('submit', async (event) => {
-        event.preventDefault();
-
-        const emailInput = document.getElementById(
-          'loginEmail'
-        ) as HTMLInputElement;
-        const passwordInput = document.getElementById(
-          'loginPassword'
-        ) as HTMLInputElement;
-        const formError = document.getElementById('loginMessage');
-
-        if (!emailInput || !passwordInput) {
-          console.error('Form inputs not found');
-          return;
-        }
-
-        const email = emailInput.value.trim();
-        const password = passwordInput.value;
-
-        // Reset previous messages
-        if (formError) {
-          formError.textContent = '';
-          formError.style.color = 'red';
-        }
-
-        // Enhanced validation with specific error messages
-        if (!email && !password) {
-          if (formError)
-            formError.textContent = 'Please enter both email and password.';
-          return;
-        }
-
-        if (!email) {
-          if (formError)
-            formError.textContent = 'Please enter your email address.';
-          return;
-        }
-
-        if (!password) {
-          if (formError) formError.textContent = 'Please enter your password.';
-          return;
-        }
-
-        // Email format validation
-        if (!email.includes('@')) {
-          if (formError)
-            formError.textContent = 'Please enter a valid email address.';
-          return;
-        }
-
-        // Noroff email validation
-        if (!email.endsWith('@stud.noroff.no')) {
-          if (formError)
-            formError.textContent =
-              'Please use your @stud.noroff.no email address.';
-          return;
-        }
-
-        // Password length validation
-        if (password.length < 8) {
-          if (formError)
-            formError.textContent =
-              'Password must be at least 8 characters long.';
-          return;
-        }
-
-        // Disable form during submission
-        if (submitBtn) {
-          submitBtn.disabled = true;
-          submitBtn.textContent = '🔄 Signing In...';
-        }
-
-        // Show loading screen during authentication
-        const loadingScreen = (window as any).loadingScreen;
-        if (loadingScreen) {
-          loadingScreen.showWithMessage('Authenticating...');
-        }
-
-        const loginData: LoginCredentials = { email, password };
-
-        try {
-          console.log('Attempting login with:', { email });
-          const result: ApiResponse<LoginResponse> = await loginUser(loginData);
-
-          if (result.errors && result.errors.length > 0) {
-            // Handle API errors with specific messages
-            const errorMessage = result.errors[0]?.message || 'Login failed.';
-
-            if (formError) {
-              // Provide more specific error messages based on API response
-              if (errorMessage.toLowerCase().includes('email')) {
-                formError.textContent =
-                  ' Email address not found. Please check your email or register for an account.';
-              } else if (errorMessage.toLowerCase().includes('password')) {
-                formError.textContent =
-                  ' Incorrect password. Please check your password and try again.';
-              } else if (
-                errorMessage.toLowerCase().includes('user') &&
-                errorMessage.toLowerCase().includes('not')
-              ) {
-                formError.textContent =
-                  ' No account found with this email. Please register first.';
-              } else if (errorMessage.toLowerCase().includes('invalid')) {
-                formError.textContent =
-                  ' Invalid login credentials. Please check your email and password.';
-              } else if (errorMessage.toLowerCase().includes('credentials')) {
-                formError.textContent =
-                  ' Invalid email or password. Please double-check your credentials.';
-              } else {
-                // Show the original API error message if we can't categorize it
-                formError.textContent = ` ${errorMessage}`;
-              }
-            }
-          } else if (result.data) {
-            // Successful login
-            const { accessToken, name } = result.data;
-
-            if (accessToken) {
-              setLocalItem('accessToken', accessToken);
-            }
-            if (name) {
-              setLocalItem('user', name);
-            }
-
-            // Try to get API key
-            try {
-              const apikey = await fetchApiKey(accessToken);
-              if (apikey) {
-                setLocalItem('apiKey', apikey);
-              }
-            } catch (apiError) {
-              console.warn('Failed to get API key:', apiError);
-              // Continue anyway - API key is optional for basic functionality
-            }
-
-            // Show success message
-            if (formError) {
-              formError.style.color = 'green';
-              formError.textContent =
-                '✅ Login successful! Redirecting to your dashboard...';
-            }
-
-            // Refresh navbar to show logout button
-            if (typeof (window as any).refreshNavbar === 'function') {
-              (window as any).refreshNavbar();
-            }
-
-            // Redirect to feed page
-            setTimeout(() => {
-              history.pushState({ path: '/feed' }, '', '/feed');
-              renderRoute('/feed');
-            }, 1500);
-          } else {
-            // Unexpected response format
-            if (formError) {
-              formError.textContent = 'Unexpected response from server.';
-            }
-          }
-        } catch (error) {
-          console.error('Login error:', error);
-          if (formError) {
-            if (error instanceof TypeError && error.message.includes('fetch')) {
-              formError.textContent =
-                '🌐 Network error. Please check your internet connection and try again.';
-            } else {
-              formError.textContent =
-                '⚠️ Something went wrong. Please try again in a moment.';
-            }
-          }
-        } finally {
-          // Hide loading screen
-          const loadingScreen = (window as any).loadingScreen;
-          if (loadingScreen) {
-            loadingScreen.hideLoadingScreen();
-          }
-
-          // Re-enable form
-          if (submitBtn) {
-            submitBtn.disabled = false;
-            submitBtn.textContent = '🚀 Sign In';
-          }
-        }
-      });
-    }
-
-    // Handle register link
-    const registerLink = document.getElementById('register-link');
-    if (registerLink) {
-      registerLink.addEventListener('click', (e) => {
-        e.preventDefault();
-        history.pushState({ path: '/register' }, '', '/register');
-        renderRoute('/register');
-      });
-    }
-  }, 0);
+export default LoginPage;
 
+async function renderLoginPage() {
   return `
     <div class="page active" id="loginPage">
         <div class="auth-container">
@@ -255,3 +66,209 @@ export default async function LoginPage() {
     </div>
   `;
 }
+
+/**
+ * Wires up the login form once it is on screen
+ */
+function mountLoginPage({ props }: ComponentContext): void {
+  const sessionNotice = consumeSessionNotice();
+  // Set when a guard sent the user here from a protected page
+  const redirectTo = getSafeRedirect(props.query.get('redirect'));
+
+  // Explain why the user landed back on the login page
+  const noticeEl = document.getElementById('loginMessage');
+  if (noticeEl && sessionNotice) {
+    noticeEl.style.color = 'orange';
+    noticeEl.textContent = `⏰ ${sessionNotice}`;
+  }
+
+  const form = document.getElementById('loginForm') as HTMLFormElement;
+  if (form) {
+    const submitBtn = form.querySelector(
+      "button[type='submit']"
+    ) as HTMLButtonElement;
+
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+
+      const emailInput = document.getElementById(
+        'loginEmail'
+      ) as HTMLInputElement;
+      const passwordInput = document.getElementById(
+        'loginPassword'
+      ) as HTMLInputElement;
+      const formError = document.getElementById('loginMessage');
+
+      if (!emailInput || !passwordInput) {
+        console.error('Form inputs not found');
+        return;
+      }
+
+      const email = emailInput.value.trim();
+      const password = passwordInput.value;
+
+      // Reset previous messages
+      if (formError) {
+        formError.textContent = '';
+        formError.style.color = 'red';
+      }
+
+      // Enhanced validation with specific error messages
+      if (!email && !password) {
+        if (formError)
+          formError.textContent = 'Please enter both email and password.';
+        return;
+      }
+
+      if (!email) {
+        if (formError)
+          formError.textContent = 'Please enter your email address.';
+        return;
+      }
+
+      if (!password) {
+        if (formError) formError.textContent = 'Please enter your password.';
+        return;
+      }
+
+      // Email format validation
+      if (!email.includes('@')) {
+        if (formError)
+          formError.textContent = 'Please enter a valid email address.';
+        return;
+      }
+
+      // Noroff email validation
+      if (!email.endsWith('@stud.noroff.no')) {
+        if (formError)
+          formError.textContent =
+            'Please use your @stud.noroff.no email address.';
+        return;
+      }
+
+      // Password length validation
+      if (password.length < 8) {
+        if (formError)
+          formError.textContent =
+            'Password must be at least 8 characters long.';
+        return;
+      }
+
+      // Disable form during submission
+      if (submitBtn) {
+        submitBtn.disabled = true;
+        submitBtn.textContent = '🔄 Signing In...';
+      }
+
+      // Show loading screen during authentication
+      const loadingScreen = getLoadingScreen();
+      loadingScreen.showWithMessage('Authenticating...');
+
+      const loginData: LoginCredentials = { email, password };
+
+      try {
+        console.log('Attempting login with:', { email });
+        const result: ApiResponse<LoginResponse> = await loginUser(loginData);
+
+        if (result.errors && result.errors.length > 0) {
+          // Handle API errors with specific messages
+          const errorMessage = result.errors[0]?.message || 'Login failed.';
+
+          if (formError) {
+            // Provide more specific error messages based on API response
+            if (errorMessage.toLowerCase().includes('email')) {
+              formError.textContent =
+                ' Email address not found. Please check your email or register for an account.';
+            } else if (errorMessage.toLowerCase().includes('password')) {
+              formError.textContent =
+                ' Incorrect password. Please check your password and try again.';
+            } else if (
+              errorMessage.toLowerCase().includes('user') &&
+              errorMessage.toLowerCase().includes('not')
+            ) {
+              formError.textContent =
+                ' No account found with this email. Please register first.';
+            } else if (errorMessage.toLowerCase().includes('invalid')) {
+              formError.textContent =
+                ' Invalid login credentials. Please check your email and password.';
+            } else if (errorMessage.toLowerCase().includes('credentials')) {
+              formError.textContent =
+                ' Invalid email or password. Please double-check your credentials.';
+            } else {
+              // Show the original API error message if we can't categorize it
+              formError.textContent = ` ${errorMessage}`;
+            }
+          }
+        } else if (result.data) {
+          // Successful login
+          const { accessToken, name } = result.data;
+
+          // Signing in also refreshes the navbar through the store
+          store.dispatch({ type: 'auth/login', user: name, accessToken });
+
+          // Try to get API key
+          try {
+            const apikey = await fetchApiKey(accessToken);
+            if (apikey) {
+              store.dispatch({ type: 'auth/apiKey', apiKey: apikey });
+            }
+          } catch (apiError) {
+            console.warn('Failed to get API key:', apiError);
+            // Continue anyway - API key is optional for basic functionality
+          }
+
+          // Show success message
+          if (formError) {
+            formError.style.color = 'green';
+            formError.textContent =
+              '✅ Login successful! Redirecting to your dashboard...';
+          }
+
+          // Replay requests queued while the session was expired, then
+          // send the user back to where they were (or the feed)
+          const sessionPath = await resumeSession();
+          const destination = redirectTo || sessionPath;
+          setTimeout(() => {
+            history.pushState({ path: destination }, '', destination);
+            renderRoute();
+          }, 1500);
+        } else {
+          // Unexpected response format
+          if (formError) {
+            formError.textContent = 'Unexpected response from server.';
+          }
+        }
+      } catch (error) {
+        console.error('Login error:', error);
+        if (formError) {
+          if (error instanceof TypeError && error.message.includes('fetch')) {
+            formError.textContent =
+              '🌐 Network error. Please check your internet connection and try again.';
+          } else {
+            formError.textContent =
+              '⚠️ Something went wrong. Please try again in a moment.';
+          }
+        }
+      } finally {
+        // Hide loading screen
+        getLoadingScreen().hideLoadingScreen();
+
+        // Re-enable form
+        if (submitBtn) {
+          submitBtn.disabled = false;
+          submitBtn.textContent = '🚀 Sign In';
+        }
+      }
+    });
+  }
+
+  // Handle register link
+  const registerLink = document.getElementById('register-link');
+  if (registerLink) {
+    registerLink.addEventListener('click', (e) => {
+      e.preventDefault();
+      history.pushState({ path: '/register' }, '', '/register');
+      renderRoute('/register');
+    });
+  }
+}
@@ -5,23 +5,23 @@
  */
 
 import { renderRoute } from '../router';
-import { isLoggedIn, logout } from '../utils/auth';
+import { beforeEach } from '../router/guards';
+import { getCurrentUser, isLoggedIn, logout } from '../utils/auth';
+import { selectIsSearching, store } from '../store';
+import { debounce } from '../utils/debounce';
 import {
   getAllPosts,
   getPublicPosts,
   type NoroffPost,
 } from '../services/posts/posts';
-
-// Add the global window interface to actually USE the NoroffPost type
-declare global {
-  interface Window {
-    searchQuery?: string;
-    searchResults?: NoroffPost[]; // This uses the imported type
-    userResults?: any[];
-    navigateToProfile?: (username: string) => void;
-    navigateToPage?: (page: number) => void;
-  }
-}
+import {
+  getCachedProfile,
+  getProfile,
+  onProfileChange,
+  type UserProfile,
+} from '../services/profiles/profiles';
+import { html, safeUrl } from '../utils/ui';
+import type { Component, ComponentContext } from '../types';
 
 // TypeScript interfaces and types for NavbarPage
 export interface NavbarElements {
@@ -65,8 +65,20 @@ interface SearchResult {
   data: NoroffPost | any; // Use NoroffPost here too
 }
 
-export default function NavbarPage() {
+/**
+ * Navigation bar, mounted above the pages and mounted again when the user
+ * signs in or out
+ */
+const NavbarPage: Component<void> = {
+  render: renderNavbar,
+  mount: initNavbar,
+};
+
+export default NavbarPage;
+
+function renderNavbar() {
   const userLoggedIn = isLoggedIn();
+  const currentUser = getCurrentUser().user;
 
   return `
     <nav class="navbar">
@@ -105,10 +117,7 @@ export default function NavbarPage() {
           </button>
           
           <button class="nav-btn nav-profile" id="nav-profile">
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
-              <circle cx="12" cy="7" r="4"></circle>
-            </svg>
+            ${renderProfileIcon(currentUser ? getCachedProfile(currentUser) : undefined)}
             Profile
           </button>
           
@@ -148,6 +157,22 @@ export default function NavbarPage() {
   `;
 }
 
+/**
+ * The signed-in user's avatar, or a generic icon until it has loaded
+ */
+function renderProfileIcon(profile?: UserProfile): string {
+  const avatarUrl = safeUrl(profile?.avatar?.url);
+
+  return avatarUrl
+    ? html`<img class="nav-avatar" src="${avatarUrl}" alt="" />`.toString()
+    : `
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
+        <circle cx="12" cy="7" r="4"></circle>
+      </svg>
+    `;
+}
+
 /**
  * Enhanced search function - now properly typed
  */
@@ -195,7 +220,7 @@ async function enhancedSearch(query: string): Promise<SearchResult[]> {
 }
 
 // Rest of the file remains exactly the same...
-export function initNavbar() {
+function initNavbar({ listen, onCleanup }: ComponentContext<void>) {
   // Navigation event listeners
   const feedBtn = document.getElementById('nav-feed');
   const profileBtn = document.getElementById('nav-profile');
@@ -225,6 +250,22 @@ export function initNavbar() {
     });
   }
 
+  // Show the signed-in user's avatar, following their profile edits
+  const currentUser = getCurrentUser().user;
+  if (profileBtn && currentUser) {
+    onCleanup(
+      onProfileChange((name, profile) => {
+        const icon = profileBtn.querySelector(
+          ':scope > svg, :scope > .nav-avatar'
+        );
+        if (name === currentUser && icon) {
+          icon.outerHTML = renderProfileIcon(profile);
+        }
+      })
+    );
+    getProfile(currentUser).catch(() => {});
+  }
+
   // Login page navigation
   if (loginBtn) {
     loginBtn.addEventListener('click', (e) => {
@@ -241,12 +282,9 @@ export function initNavbar() {
 
       // Show confirmation dialog
       if (confirm('Are you sure you want to logout?')) {
-        // Clear authentication data
+        // Clear authentication data; the navbar refreshes from the store
         logout();
 
-        // Update navbar to show login button
-        updateNavbarAfterLogout();
-
         // Navigate to login page
         history.pushState({ path: '/' }, '', '/');
         renderRoute('/');
@@ -285,7 +323,7 @@ export function initNavbar() {
 
       if (searchTerm === '') {
         // Clear search - trigger reload of original feed
-        (window as any).searchQuery = null;
+        store.dispatch({ type: 'search/cleared' });
         if (window.location.pathname === '/feed') {
           renderRoute('/feed');
         }
@@ -299,10 +337,12 @@ export function initNavbar() {
       const userResults = searchResults.filter((r) => r.type === 'user');
       const postResults = searchResults.filter((r) => r.type === 'post');
 
-      // Store results globally
-      (window as any).searchQuery = searchTerm;
-      (window as any).searchResults = postResults.map((r) => r.data);
-      (window as any).userResults = userResults.map((r) => r.data);
+      store.dispatch({
+        type: 'search/results',
+        query: searchTerm,
+        posts: postResults.map((r) => r.data),
+        users: userResults.map((r) => r.data),
+      });
 
       // Navigate to feed to show results
       if (window.location.pathname !== '/feed') {
@@ -320,8 +360,21 @@ export function initNavbar() {
       }
     };
 
+    // Results are shown on the feed; other pages, including tag feeds,
+    // start without them
+    onCleanup(
+      beforeEach((to) => {
+        if (to.route.url === '/feed' || !selectIsSearching(store.getState())) {
+          return;
+        }
+        searchInput.value = '';
+        store.dispatch({ type: 'search/cleared' });
+      })
+    );
+
     // Add event listeners
-    searchInput.addEventListener('input', handleSearchInput);
+    // Wait for a pause in typing instead of searching on every keystroke
+    searchInput.addEventListener('input', debounce(handleSearchInput, 300));
     searchBtn.addEventListener('click', handleSearchClick);
 
     // Enhanced keyboard shortcuts
@@ -341,39 +394,28 @@ export function initNavbar() {
   }
 
   // Enhanced Global Event Listeners
-  setupGlobalEventListeners(searchInput);
+  setupGlobalEventListeners(searchInput, listen);
 
   // Update active navigation based on current path
   updateActiveNav();
-
-  // Make updateActiveNav available globally for route changes
-  (window as any).updateActiveNav = updateActiveNav;
-  (window as any).updateNavbarAfterLogout = updateNavbarAfterLogout;
 }
 
-function setupGlobalEventListeners(searchInput: HTMLInputElement | null) {
+function setupGlobalEventListeners(
+  searchInput: HTMLInputElement | null,
+  listen: ComponentContext<void>['listen']
+) {
   // Enhanced Event Listeners
-  document.addEventListener('click', function (e) {
+  listen(document, 'click', function (e) {
     // Close dropdowns when clicking outside
     if (!e.target || !(e.target as Element).closest('.dropdown')) {
       document.querySelectorAll('.dropdown-content').forEach((dropdown) => {
         dropdown.classList.remove('show');
       });
     }
-
-    // Close modals when clicking outside
-    if ((e.target as Element).classList?.contains('modal')) {
-      if (typeof (window as any).closeModal === 'function') {
-        (window as any).closeModal();
-      }
-      if (typeof (window as any).closeEditModal === 'function') {
-        (window as any).closeEditModal();
-      }
-    }
   });
 
   // Enhanced Keyboard shortcuts
-  document.addEventListener('keydown', function (e) {
+  listen(document, 'keydown', function (e) {
     // Ctrl/Cmd + K for search focus
     if ((e.ctrlKey || e.metaKey) && e.key === 'k') {
       e.preventDefault();
@@ -383,53 +425,36 @@ function setupGlobalEventListeners(searchInput: HTMLInputElement | null) {
       }
     }
 
-    // Escape to clear search and close modals
+    // Escape to clear search; pages close their own modals
     if (e.key === 'Escape') {
       // Clear search
       if (searchInput && document.activeElement === searchInput) {
         searchInput.value = '';
         searchInput.blur();
         // Clear search results
-        (window as any).searchQuery = null;
+        store.dispatch({ type: 'search/cleared' });
         if (window.location.pathname === '/feed') {
           renderRoute('/feed');
         }
       }
 
-      // Close modals
-      if (typeof (window as any).closeModal === 'function') {
-        (window as any).closeModal();
-      }
-      if (typeof (window as any).closeEditModal === 'function') {
-        (window as any).closeEditModal();
-      }
-
       // Close dropdowns
       document.querySelectorAll('.dropdown-content').forEach((dropdown) => {
         dropdown.classList.remove('show');
       });
     }
 
-    // Ctrl/Cmd + Enter to submit post
+    // Ctrl/Cmd + Enter to submit the post being written or edited
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
-      const activeElement = document.activeElement as HTMLElement;
-      if (activeElement?.id === 'newPostContent') {
-        if (typeof (window as any).createPost === 'function') {
-          (window as any).createPost();
-        }
-      } else if (activeElement?.id === 'editPostContent') {
-        const editForm = document.getElementById(
-          'editPostForm'
-        ) as HTMLFormElement;
-        if (editForm) {
-          editForm.dispatchEvent(new Event('submit'));
-        }
-      }
+      const postForm = document.activeElement?.closest<HTMLFormElement>(
+        '#create-post-form, #editPostForm'
+      );
+      postForm?.requestSubmit();
     }
   });
 }
 
-function updateActiveNav() {
+export function updateActiveNav() {
   const currentPath = window.location.pathname;
   const navButtons = document.querySelectorAll('.nav-btn');
 
@@ -437,33 +462,18 @@ function updateActiveNav() {
   navButtons.forEach((btn) => btn.classList.remove('active'));
 
   // Add active class to current page button
-  if (currentPath === '/feed') {
+  if (currentPath === '/feed' || currentPath.startsWith('/tags/')) {
     document.getElementById('nav-feed')?.classList.add('active');
-  } else if (currentPath === '/profile') {
+  } else if (
+    currentPath === '/profile' ||
+    currentPath.startsWith('/profile/')
+  ) {
     document.getElementById('nav-profile')?.classList.add('active');
   } else if (currentPath === '/') {
     document.getElementById('nav-login')?.classList.add('active');
   }
 }
 
-function updateNavbarAfterLogout() {
-  const navContainer = document.querySelector('.navbar-nav');
-  if (navContainer) {
-    // Remove existing navbar and recreate it
-    const navbar = document.querySelector('.navbar');
-    if (navbar) {
-      navbar.remove();
-    }
-
-    // Re-add updated navbar
-    const newNavbar = NavbarPage();
-    document.body.insertAdjacentHTML('afterbegin', newNavbar);
-
-    // Re-initialize navbar
-    initNavbar();
-  }
-}
-
 function showLogoutMessage() {
   // Create temporary notification
   const notification = document.createElement('div');
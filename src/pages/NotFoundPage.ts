@@ -4,7 +4,19 @@
  * @author Your Name
  */
 
-export default async function NotFoundPage() {
+import { renderRoute } from '../router';
+import { delegateActions, type ActionHandlers } from '../utils/ui';
+import type { PageComponent } from '../types';
+
+const NotFoundPage: PageComponent = {
+  render: renderNotFoundPage,
+  mount: ({ root, onCleanup }) =>
+    onCleanup(delegateActions(root, notFoundActions)),
+};
+
+export default NotFoundPage;
+
+async function renderNotFoundPage() {
   return `
     <div class="not-found-page">
       <div class="not-found-container">
@@ -54,9 +66,7 @@ export default async function NotFoundPage() {
           
           <!-- Action Buttons -->
           <div class="error-actions">
-            <button class="btn btn-primary" onclick="event.preventDefault();
-             history.pushState({path: '/'}, '', '/'); 
-             renderRoute('/');">
+            <button class="btn btn-primary" data-action="go-home">
               🏠 Back to Home
             </button>
         
@@ -71,3 +81,12 @@ export default async function NotFoundPage() {
     </div>
   `;
 }
+
+const notFoundActions: ActionHandlers = {
+  click: {
+    'go-home': () => {
+      history.pushState({ path: '/' }, '', '/');
+      renderRoute('/');
+    },
+  },
+};
@@ -0,0 +1,251 @@
+/**
+ * @file PostPage.ts
+ * @description Single post page at `/post/:id` with the full post, its
+ * reaction breakdown and the threaded comment list
+ * @author Your Name
+ */
+
+import { getPostById, type NoroffPost } from '../services/posts/posts';
+import type { Comment } from '../services/interactions/interactions';
+import { getTimeAgo, renderPostTags } from '../components/postCard';
+import { renderReactorsList } from '../components/reactions';
+import {
+  commentThreadActions,
+  renderCommentThread,
+} from '../components/commentThread';
+import { renderRichText } from '../utils/richText';
+import {
+  delegateActions,
+  html,
+  raw,
+  safeUrl,
+  type ActionHandlers,
+  type SafeHtml,
+} from '../utils/ui';
+import { NotFoundError, type PageComponent, type RouteContext } from '../types';
+import { renderRoute } from '../router';
+
+/**
+ * Main PostPage component, reachable by direct link or refresh
+ */
+const PostPage: PageComponent = {
+  render: renderPostPage,
+  mount: ({ root, onCleanup }) =>
+    onCleanup(delegateActions(root, postPageActions, commentThreadActions)),
+};
+
+export default PostPage;
+
+/**
+ * @param context Route params; `params.id` is the post id
+ * @returns Promise<string> HTML string for the post page
+ */
+async function renderPostPage({ params }: RouteContext): Promise<string> {
+  const postId = Number(params.id);
+  if (!Number.isInteger(postId) || postId <= 0) {
+    return renderErrorState('Post not found', 'This link is not valid.');
+  }
+
+  try {
+    const post = await getPostById(postId);
+
+    return html`
+      <div class="post-page">
+        <div class="post-container">
+          <div class="back-navigation">
+            <button class="back-btn" data-action="go-back">
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2"
+              >
+                <path d="m12 19-7-7 7-7"></path>
+                <path d="m19 12H5"></path>
+              </svg>
+              Back
+            </button>
+          </div>
+
+          ${renderFullPost(post)} ${renderReactionBreakdown(post)}
+          ${renderCommentSection(post.comments || [])}
+        </div>
+      </div>
+    `.toString();
+  } catch (error) {
+    console.error('Error loading post:', error);
+
+    if (error instanceof NotFoundError) {
+      return renderErrorState(
+        'Post not found',
+        'It may have been deleted by its author.'
+      );
+    }
+    return renderErrorState(
+      'Unable to load post',
+      'Please check your connection and try again.'
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Post Sections                                */
+/* -------------------------------------------------------------------------- */
+
+function renderFullPost(post: NoroffPost): SafeHtml {
+  const { id, title, body, tags = [], media, created, updated, author } = post;
+  const isEdited = updated && updated !== created;
+  const avatarUrl = safeUrl(author?.avatar?.url);
+  const mediaUrl = safeUrl(media?.url);
+
+  return html`
+    <article class="full-post" id="post-${id}" data-post-id="${id}">
+      <header class="post-header">
+        <div class="author-info">
+          <div class="author-avatar">
+            ${avatarUrl
+              ? html`<img
+                  src="${avatarUrl}"
+                  alt="${author?.avatar?.alt || author?.name}"
+                  class="avatar-img"
+                />`
+              : html`<span class="avatar-placeholder"
+                  >${author?.name?.charAt(0).toUpperCase() || 'U'}</span
+                >`}
+          </div>
+          <div class="author-details">
+            <h2 class="author-name">
+              <a
+                href="/profile/${encodeURIComponent(author?.name || '')}"
+                data-link-profile="${author?.name || ''}"
+                >${author?.name || 'Unknown'}</a
+              >
+            </h2>
+            <p class="post-time" title="${new Date(created).toLocaleString()}">
+              ${getTimeAgo(new Date(created))}${isEdited ? ' · edited' : ''}
+            </p>
+            ${author?.bio ? html`<p class="author-bio">${author.bio}</p>` : ''}
+          </div>
+        </div>
+        <button
+          class="btn btn-secondary copy-link-btn"
+          data-action="copy-post-link"
+          data-post-id="${Number(id)}"
+        >
+          🔗 Copy link
+        </button>
+      </header>
+
+      ${mediaUrl
+        ? html`
+            <div class="full-post-media">
+              <img src="${mediaUrl}" alt="${media?.alt || 'Post image'}" />
+            </div>
+          `
+        : ''}
+
+      <div class="full-post-body">
+        ${title ? html`<h1 class="full-post-title">${title}</h1>` : ''}
+        ${body
+          ? html`<div class="full-post-text">${raw(renderRichText(body))}</div>`
+          : ''}
+        ${tags.length > 0
+          ? html`<div class="post-tags-compact">
+              ${raw(renderPostTags(tags, tags.length))}
+            </div>`
+          : ''}
+      </div>
+    </article>
+  `;
+}
+
+function renderReactionBreakdown(post: NoroffPost): SafeHtml {
+  const reactions = post.reactions || [];
+  const total = reactions.reduce((sum, reaction) => sum + reaction.count, 0);
+
+  return html`
+    <section class="post-section reaction-breakdown">
+      <h3 class="post-section-title">
+        Reactions <span class="post-section-count">${total}</span>
+      </h3>
+      ${reactions.length > 0
+        ? raw(renderReactorsList(reactions))
+        : html`<p class="post-section-empty">No reactions yet.</p>`}
+    </section>
+  `;
+}
+
+function renderCommentSection(comments: Comment[]): SafeHtml {
+  return html`
+    <section class="post-section post-comments">
+      <h3 class="post-section-title">
+        Comments <span class="post-section-count">${comments.length}</span>
+      </h3>
+      ${comments.length > 0
+        ? raw(renderCommentThread(comments, { renderComment }))
+        : html`<p class="post-section-empty">No comments yet.</p>`}
+    </section>
+  `;
+}
+
+function renderComment(comment: Comment): string {
+  const { author } = comment;
+  const avatarUrl = safeUrl(author?.avatar?.url);
+
+  return html`
+    <div class="comment-item" data-comment-id="${comment.id}">
+      <div class="comment-avatar">
+        ${avatarUrl
+          ? html`<img
+              src="${avatarUrl}"
+              alt="${author?.avatar?.alt || author?.name}"
+              class="comment-avatar-img"
+            />`
+          : html`<div class="comment-avatar-placeholder">
+              ${author?.name?.charAt(0).toUpperCase() || 'U'}
+            </div>`}
+      </div>
+      <div class="comment-content">
+        <div class="comment-header">
+          <span class="comment-author">${author?.name || 'Unknown'}</span>
+          <span class="comment-time"
+            >${getTimeAgo(new Date(comment.created))}</span
+          >
+        </div>
+        <div class="comment-text">${raw(renderRichText(comment.body))}</div>
+      </div>
+    </div>
+  `.toString();
+}
+
+function renderErrorState(title: string, message: string): string {
+  return `
+    <div class="post-page">
+      <div class="error-state">
+        <div class="error-icon">⚠️</div>
+        <h2>${title}</h2>
+        <p>${message}</p>
+        <button class="btn btn-primary" data-action="go-back">Go Back</button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Goes back in history, or to the feed when the post was opened directly
+ */
+function goBackFromPost(): void {
+  if (history.state?.fromApp) {
+    history.back();
+    return;
+  }
+
+  history.pushState({ path: '/feed' }, '', '/feed');
+  renderRoute('/feed');
+}
+
+const postPageActions: ActionHandlers = {
+  click: { 'go-back': goBackFromPost },
+};
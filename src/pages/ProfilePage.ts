@@ -4,57 +4,72 @@
  * @author Your Name
  */
 
-import { type NoroffPost } from '../services/posts/posts';
-import { getLocalItem } from '../utils/storage';
-import { isLoggedIn } from '../utils/auth';
-import { get, put } from '../services/api/client';
-
-interface UserProfile {
-  name: string;
-  email: string;
-  bio?: string;
-  avatar?: {
-    url: string;
-    alt: string;
-  };
-  banner?: {
-    url: string;
-    alt: string;
-  };
-  _count: {
-    posts: number;
-    followers: number;
-    following: number;
-  };
-}
+import {
+  getProfilePosts,
+  onPostChange,
+  type NoroffPost,
+} from '../services/posts/posts';
+import {
+  followProfile,
+  getProfile,
+  onProfileChange,
+  unfollowProfile,
+  updateProfile,
+  type ProfileChanges,
+  type UserProfile,
+} from '../services/profiles/profiles';
+import {
+  closeProfileEditor,
+  initProfileEditor,
+  renderProfileEditor,
+  toggleProfileEditor,
+} from '../components/profileEditor';
+import { getCurrentUser, isLoggedIn } from '../utils/auth';
+import { renderRichText } from '../utils/richText';
+import {
+  delegateActions,
+  html,
+  raw,
+  safeUrl,
+  type ActionHandlers,
+  type SafeHtml,
+} from '../utils/ui';
+import type { ComponentContext, PageComponent, RouteContext } from '../types';
 
-interface FollowResponse {
-  data: {
-    name: string;
-    followers: Array<{ name: string; email: string }>;
-    following: Array<{ name: string; email: string }>;
-  };
-}
+/**
+ * Main ProfilePage component that renders user profile with posts and follow functionality
+ */
+const ProfilePage: PageComponent = {
+  render: renderProfilePage,
+  mount: initializeProfileInteractions,
+};
 
-interface ProfileWithFollowData extends UserProfile {
-  followers?: Array<{ name: string; email: string }>;
-  following?: Array<{ name: string; email: string }>;
+export default ProfilePage;
+
+/**
+ * Picks the profile to show: the route's user, the legacy `?user=` query or
+ * the current user
+ */
+function getProfileTarget({ params, query }: RouteContext): {
+  profileUsername: string | null;
+  isOwnProfile: boolean;
+} {
+  const targetUsername = params.name || query.get('user');
+  const currentUser = getCurrentUser().user;
+
+  return {
+    profileUsername: targetUsername || currentUser,
+    isOwnProfile: !targetUsername || targetUsername === currentUser,
+  };
 }
 
 /**
- * Main ProfilePage component that renders user profile with posts and follow functionality
+ * @param context Route params and query; `/profile/:name` or the legacy `?user=`
  * @returns Promise<string> HTML string for the profile page
  */
-export default async function ProfilePage(): Promise<string> {
+async function renderProfilePage(context: RouteContext): Promise<string> {
   try {
-    // Get username from URL params or current user
-    const urlParams = new URLSearchParams(window.location.search);
-    const targetUsername = urlParams.get('user');
-    const currentUser = getLocalItem('user');
-
-    // Determine which profile to show
-    const profileUsername = targetUsername || currentUser;
-    const isOwnProfile = !targetUsername || targetUsername === currentUser;
+    const { profileUsername, isOwnProfile } = getProfileTarget(context);
 
     if (!profileUsername) {
       return renderErrorState('Please log in to view profiles');
@@ -66,29 +81,25 @@ export default async function ProfilePage(): Promise<string> {
       fetchUserPosts(profileUsername),
     ]);
 
-    // Initialize interactions after DOM renders
-    setTimeout(() => {
-      initializeProfileInteractions(profileUsername, isOwnProfile);
-    }, 100);
-
-    return `
+    return html`
       <div class="profile-page">
         <div class="profile-container">
           <!-- Profile Header -->
           ${renderProfileHeader(profileData, isOwnProfile)}
-          
+
           <!-- Profile Content -->
           <div class="profile-content">
             ${renderProfileInfo(profileData)}
-            
+            ${isOwnProfile && isLoggedIn()
+              ? raw(renderProfileEditor(profileData))
+              : ''}
+
             <!-- Profile Tabs -->
             <div class="profile-tabs">
               <button class="tab-btn active" data-tab="posts">
                 Posts (${profileData._count.posts})
               </button>
-              <button class="tab-btn" data-tab="media">
-                Media
-              </button>
+              <button class="tab-btn" data-tab="media">Media</button>
               <button class="tab-btn" data-tab="following">
                 Following (${profileData._count.following})
               </button>
@@ -96,15 +107,15 @@ export default async function ProfilePage(): Promise<string> {
                 Followers (${profileData._count.followers})
               </button>
             </div>
-            
+
             <!-- Tab Content -->
             <div class="tab-content" id="profile-tab-content">
-              ${renderPostsTab(userPosts)}
+              ${raw(renderPostsTab(userPosts))}
             </div>
           </div>
         </div>
       </div>
-    `;
+    `.toString();
   } catch (error) {
     console.error('Error loading profile:', error);
     return renderErrorState('Failed to load profile');
@@ -114,16 +125,11 @@ export default async function ProfilePage(): Promise<string> {
 /**
  * Fetches user profile data with follow information
  * @param username The username to fetch profile for
- * @returns Promise<ProfileWithFollowData> User profile data
+ * @returns Promise<UserProfile> User profile data
  */
-async function fetchUserProfile(
-  username: string
-): Promise<ProfileWithFollowData> {
+async function fetchUserProfile(username: string): Promise<UserProfile> {
   try {
-    const response = await get<{ data: ProfileWithFollowData }>(
-      `/social/profiles/${username}?_followers=true&_following=true`
-    );
-    return response.data;
+    return await getProfile(username);
   } catch (error) {
     console.error('Error fetching profile:', error);
     // Return default profile structure
@@ -149,10 +155,8 @@ async function fetchUserProfile(
  */
 async function fetchUserPosts(username: string): Promise<NoroffPost[]> {
   try {
-    const response = await get<{ data: NoroffPost[] }>(
-      `/social/profiles/${username}/posts?_author=true&_reactions=true`
-    );
-    return response.data || [];
+    const response = await getProfilePosts(username);
+    return response.data;
   } catch (error) {
     console.error('Error fetching user posts:', error);
     return [];
@@ -166,14 +170,11 @@ async function fetchUserPosts(username: string): Promise<NoroffPost[]> {
  */
 async function checkIfFollowing(username: string): Promise<boolean> {
   try {
-    const currentUser = getLocalItem('user');
+    const currentUser = getCurrentUser().user;
     if (!currentUser) return false;
 
-    const response = await get<{ data: ProfileWithFollowData }>(
-      `/social/profiles/${currentUser}?_following=true`
-    );
-
-    const following = response.data.following || [];
+    const profile = await getProfile(currentUser);
+    const following = profile.following || [];
     return following.some((user) => user.name === username);
   } catch (error) {
     console.error('Error checking follow status:', error);
@@ -181,116 +182,135 @@ async function checkIfFollowing(username: string): Promise<boolean> {
   }
 }
 
-/**
- * Follow a user
- * @param username The username to follow
- * @returns Promise<FollowResponse> Response from follow API
- */
-async function followUser(username: string): Promise<FollowResponse> {
-  try {
-    const response = await put(`/social/profiles/${username}/follow`, {});
-    return response as FollowResponse;
-  } catch (error) {
-    console.error('Error following user:', error);
-    throw new Error('Failed to follow user');
-  }
-}
-
-/**
- * Unfollow a user
- * @param username The username to unfollow
- * @returns Promise<FollowResponse> Response from unfollow API
- */
-async function unfollowUser(username: string): Promise<FollowResponse> {
-  try {
-    const response = await put(`/social/profiles/${username}/unfollow`, {});
-    return response as FollowResponse;
-  } catch (error) {
-    console.error('Error unfollowing user:', error);
-    throw new Error('Failed to unfollow user');
-  }
-}
-
 function renderProfileHeader(
-  profile: ProfileWithFollowData,
+  profile: UserProfile,
   isOwnProfile: boolean
   // Remove the unused currentUser parameter
-): string {
-  const bannerUrl = profile.banner?.url || '';
-
-  return `
-    <div class="profile-header" style="${bannerUrl ? `background-image: url('${bannerUrl}')` : ''}">
+): SafeHtml {
+  const bannerUrl = safeUrl(profile.banner?.url);
+
+  return html`
+    <div
+      class="profile-header"
+      style="${bannerUrl
+        ? `background-image: url('${toCssUrl(bannerUrl)}')`
+        : ''}"
+    >
       <div class="profile-header-overlay">
         <div class="profile-header-content">
           <!-- Back Button -->
-          <button class="back-btn" onclick="history.back()">
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+          <button class="back-btn" data-action="go-back">
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2"
+            >
               <path d="m12 19-7-7 7-7"></path>
               <path d="m19 12H5"></path>
             </svg>
             Back
           </button>
-          
+
+          ${isOwnProfile && isLoggedIn()
+            ? html`
+                <button class="edit-profile-btn" data-action="edit-profile">
+                  ✏️ Edit profile
+                </button>
+              `
+            : ''}
+
           <!-- Follow Button (only show for other users when logged in) -->
-          ${
-            !isOwnProfile && isLoggedIn()
-              ? `
-            <button class="follow-btn" id="follow-btn" data-username="${profile.name}">
-              <span class="follow-text">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                  <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"></path>
-                  <circle cx="9" cy="7" r="4"></circle>
-                  <line x1="19" y1="8" x2="19" y2="14"></line>
-                  <line x1="22" y1="11" x2="16" y2="11"></line>
-                </svg>
-                Follow
-              </span>
-              <span class="unfollow-text" style="display: none;">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                  <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"></path>
-                  <circle cx="9" cy="7" r="4"></circle>
-                  <line x1="22" y1="11" x2="16" y2="11"></line>
-                </svg>
-                Following
-              </span>
-            </button>
-          `
-              : ''
-          }
+          ${!isOwnProfile && isLoggedIn()
+            ? html`
+                <button
+                  class="follow-btn"
+                  id="follow-btn"
+                  data-username="${profile.name}"
+                >
+                  <span class="follow-text">
+                    <svg
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      stroke-width="2"
+                    >
+                      <path
+                        d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"
+                      ></path>
+                      <circle cx="9" cy="7" r="4"></circle>
+                      <line x1="19" y1="8" x2="19" y2="14"></line>
+                      <line x1="22" y1="11" x2="16" y2="11"></line>
+                    </svg>
+                    Follow
+                  </span>
+                  <span class="unfollow-text" style="display: none;">
+                    <svg
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      stroke-width="2"
+                    >
+                      <path
+                        d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"
+                      ></path>
+                      <circle cx="9" cy="7" r="4"></circle>
+                      <line x1="22" y1="11" x2="16" y2="11"></line>
+                    </svg>
+                    Following
+                  </span>
+                </button>
+              `
+            : ''}
         </div>
       </div>
     </div>
   `;
 }
 
-function renderProfileInfo(profile: UserProfile): string {
-  const avatarUrl =
-    profile.avatar?.url ||
-    `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.name)}&background=6366f1&color=fff&size=128`;
+function renderProfileInfo(profile: UserProfile): SafeHtml {
+  const avatarUrl = safeUrl(
+    profile.avatar?.url,
+    `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.name)}&background=6366f1&color=fff&size=128`
+  );
 
-  return `
+  return html`
     <div class="profile-info">
       <div class="profile-avatar">
-        <img src="${avatarUrl}" alt="${profile.avatar?.alt || profile.name}" class="avatar-img">
+        <img
+          src="${avatarUrl}"
+          alt="${profile.avatar?.alt || profile.name}"
+          class="avatar-img"
+        />
       </div>
-      
+
       <div class="profile-details">
         <h1 class="profile-name">${profile.name}</h1>
         <p class="profile-email">@${profile.name.toLowerCase()}</p>
-        
-        ${profile.bio ? `<p class="profile-bio">${profile.bio}</p>` : ''}
-        
+
+        ${profile.bio ? html`<p class="profile-bio">${profile.bio}</p>` : ''}
+
         <div class="profile-stats">
           <div class="stat">
             <span class="stat-number">${profile._count.posts}</span>
             <span class="stat-label">Posts</span>
           </div>
           <div class="stat">
-            <span class="stat-number" id="following-count">${profile._count.following}</span>
+            <span class="stat-number" id="following-count"
+              >${profile._count.following}</span
+            >
             <span class="stat-label">Following</span>
           </div>
           <div class="stat">
-            <span class="stat-number" id="followers-count">${profile._count.followers}</span>
+            <span class="stat-number" id="followers-count"
+              >${profile._count.followers}</span
+            >
             <span class="stat-label">Followers</span>
           </div>
         </div>
@@ -310,51 +330,65 @@ function renderPostsTab(posts: NoroffPost[]): string {
     `;
   }
 
-  return `
+  return html`
     <div class="profile-posts">
-      ${posts.map((post, index) => renderProfilePost(post, index)).join('')}
+      ${posts.map((post, index) => raw(renderProfilePost(post, index)))}
     </div>
-  `;
+  `.toString();
 }
 
 function renderProfilePost(post: NoroffPost, index: number): string {
   const timeAgo = getTimeAgo(new Date(post.created));
+  const mediaUrl = safeUrl(post.media?.url);
+
+  return html`
+    <article
+      class="profile-post-card"
+      data-post-id="${post.id}"
+      style="animation-delay: ${index * 0.1}s"
+    >
+      ${mediaUrl
+        ? html`
+            <div class="post-media">
+              <img
+                src="${mediaUrl}"
+                alt="${post.media?.alt || 'Post image'}"
+                class="post-image"
+              />
+            </div>
+          `
+        : ''}
 
-  return `
-    <article class="profile-post-card" style="animation-delay: ${index * 0.1}s">
-      ${
-        post.media?.url
-          ? `
-        <div class="post-media">
-          <img src="${post.media.url}" alt="${post.media.alt || 'Post image'}" class="post-image">
-        </div>
-      `
-          : ''
-      }
-      
       <div class="post-content">
         <h3 class="post-title">${post.title}</h3>
-        <p class="post-body">${post.body}</p>
-        
-        ${
-          post.tags && post.tags.length > 0
-            ? `
-          <div class="post-tags">
-            ${post.tags.map((tag) => `<span class="tag">#${tag}</span>`).join('')}
-          </div>
-        `
-            : ''
-        }
-        
+        <div class="post-body">${raw(renderRichText(post.body))}</div>
+
+        ${post.tags && post.tags.length > 0
+          ? html`
+              <div class="post-tags">
+                ${post.tags.map(
+                  (tag) =>
+                    html`<a
+                      href="/tags/${encodeURIComponent(tag)}"
+                      class="tag"
+                      data-link-tag="${tag}"
+                      >#${tag}</a
+                    >`
+                )}
+              </div>
+            `
+          : ''}
+
         <div class="post-meta">
           <span class="post-time">${timeAgo}</span>
           <span class="post-stats">
-            ${post._count.reactions} reactions · ${post._count.comments} comments
+            ${post._count.reactions} reactions · ${post._count.comments}
+            comments
           </span>
         </div>
       </div>
     </article>
-  `;
+  `.toString();
 }
 
 function renderMediaTab(posts: NoroffPost[]): string {
@@ -368,19 +402,31 @@ function renderMediaTab(posts: NoroffPost[]): string {
     `;
   }
 
-  return `
+  return html`
     <div class="media-grid">
-      ${posts
-        .map(
-          (post) => `
-        <div class="media-item">
-          <img src="${post.media!.url}" alt="${post.media!.alt || 'Media'}" class="media-image">
-        </div>
-      `
-        )
-        .join('')}
+      ${posts.map(
+        (post) => html`
+          <div class="media-item">
+            <img
+              src="${safeUrl(post.media?.url)}"
+              alt="${post.media?.alt || 'Media'}"
+              class="media-image"
+            />
+          </div>
+        `
+      )}
     </div>
-  `;
+  `.toString();
+}
+
+/**
+ * Escapes the characters that would end a CSS `url('…')` early
+ */
+function toCssUrl(url: string): string {
+  return url.replace(
+    /['"()\\\s]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`
+  );
 }
 
 function renderErrorState(message: string): string {
@@ -390,7 +436,7 @@ function renderErrorState(message: string): string {
         <div class="error-icon">⚠️</div>
         <h2>Unable to load profile</h2>
         <p>${message}</p>
-        <button class="btn btn-primary" onclick="history.back()">Go Back</button>
+        <button class="btn btn-primary" data-action="go-back">Go Back</button>
       </div>
     </div>
   `;
@@ -400,15 +446,90 @@ function renderErrorState(message: string): string {
 /*                            Profile Interactions                            */
 /* -------------------------------------------------------------------------- */
 
-function initializeProfileInteractions(
-  username: string,
-  isOwnProfile: boolean
-): void {
+const profileActions: ActionHandlers = {
+  click: {
+    'go-back': () => history.back(),
+    'edit-profile': () => toggleProfileEditor(),
+    'close-profile-editor': () => closeProfileEditor(),
+  },
+};
+
+function initializeProfileInteractions({
+  root,
+  props,
+  onCleanup,
+}: ComponentContext): void {
+  onCleanup(delegateActions(root, profileActions));
+
+  const { profileUsername: username, isOwnProfile } = getProfileTarget(props);
+  // The error state has nothing else to wire up
+  if (!username || !document.getElementById('profile-tab-content')) return;
+
   initializeTabs(username);
 
+  // Keep post cards in sync with edits and deletes made on other pages
+  onCleanup(
+    onPostChange((postId, post) => {
+      document
+        .querySelectorAll(`.profile-post-card[data-post-id="${postId}"]`)
+        .forEach((card) => {
+          if (post) {
+            card.outerHTML = renderProfilePost(post, 0);
+          } else {
+            // Hidden rather than removed, so a failed delete can bring it back
+            (card as HTMLElement).hidden = true;
+          }
+        });
+    })
+  );
+
   if (!isOwnProfile && isLoggedIn()) {
     initializeFollowButton(username);
   }
+
+  if (isOwnProfile && isLoggedIn()) {
+    initProfileEditor((changes, form) => saveProfile(username, changes, form));
+
+    // Saved edits show in the header and info without reloading the page
+    onCleanup(
+      onProfileChange((name, profile) => {
+        if (name !== username || !profile) return;
+
+        const header = document.querySelector('.profile-header');
+        if (header)
+          header.outerHTML = renderProfileHeader(profile, true).toString();
+        const info = document.querySelector('.profile-info');
+        if (info) info.outerHTML = renderProfileInfo(profile).toString();
+      })
+    );
+  }
+}
+
+/**
+ * Saves the edit panel's changes; the page, navbar and post authors pick
+ * them up through the profile cache
+ */
+async function saveProfile(
+  username: string,
+  changes: ProfileChanges,
+  form: HTMLFormElement
+): Promise<void> {
+  const saveBtn = form.querySelector<HTMLButtonElement>('[type="submit"]');
+
+  try {
+    if (saveBtn) saveBtn.disabled = true;
+    await updateProfile(username, changes);
+    closeProfileEditor(true);
+    showNotification('Profile updated', 'success');
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    showNotification(
+      error instanceof Error ? error.message : 'Failed to update profile',
+      'error'
+    );
+  } finally {
+    if (saveBtn) saveBtn.disabled = false;
+  }
 }
 
 /**
@@ -436,13 +557,14 @@ async function initializeFollowButton(username: string): Promise<void> {
         followBtn.disabled = true;
         followBtn.innerHTML = '<div class="loading-spinner-small"></div>';
 
+        const currentUser = getCurrentUser().user || '';
         if (currentlyFollowing) {
-          await unfollowUser(username);
+          await unfollowProfile(username, currentUser);
           updateFollowButton(followBtn, false);
           updateFollowerCount(-1);
           showNotification(`Unfollowed ${username}`, 'success');
         } else {
-          await followUser(username);
+          await followProfile(username, currentUser);
           updateFollowButton(followBtn, true);
           updateFollowerCount(1);
           showNotification(`Now following ${username}`, 'success');
@@ -609,7 +731,9 @@ function showNotification(
 ): void {
   const notification = document.createElement('div');
   notification.className = `notification ${type}-notification`;
-  notification.innerHTML = `<div class="notification-content">${message}</div>`;
+  notification.innerHTML = html`<div class="notification-content">
+    ${message}
+  </div>`.toString();
   notification.style.cssText = `
     position: fixed;
     top: 90px;
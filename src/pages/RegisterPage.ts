@@ -13,201 +13,22 @@
 
 import { registerUser } from '../services/api/client';
 import { renderRoute } from '../router';
+import { getLoadingScreen } from './LoadingScreen';
 import type {
   RegisterData,
   ApiResponse,
+  PageComponent,
   RegisterResponse,
 } from '../types/index.js';
 
-export default async function RegisterPage() {
-  // Set up event listeners after DOM is updated
-  setTimeout(() => {
-    const form = document.getElementById('registerForm') as HTMLFormElement;
-    if (form) {
-      const submitBtn = form.querySelector(
-        "button[type='submit']"
-      ) as HTMLButtonElement;
-
-      form.addEventListener('submit', async (event) => {
-        event.preventDefault();
-
-        const nameInput = document.getElementById(
-          'registerName'
-        ) as HTMLInputElement;
-        const emailInput = document.getElementById(
-          'registerEmail'
-        ) as HTMLInputElement;
-        const passwordInput = document.getElementById(
-          'registerPassword'
-        ) as HTMLInputElement;
-        const bioInput = document.getElementById(
-          'registerBio'
-        ) as HTMLTextAreaElement;
-        const formError = document.getElementById('registerMessage');
-
-        if (!nameInput || !emailInput || !passwordInput) {
-          console.error('Form inputs not found');
-          return;
-        }
-
-        const name = nameInput.value.trim();
-        const email = emailInput.value.trim();
-        const password = passwordInput.value;
-        const bio = bioInput?.value?.trim() || undefined;
-
-        // Reset previous messages
-        if (formError) {
-          formError.textContent = '';
-          formError.style.color = 'red';
-        }
-
-        let hasError = false;
-
-        // Validation
-        if (!name) {
-          if (formError) formError.textContent = 'Name is required.';
-          hasError = true;
-        } else if (name.length < 2) {
-          if (formError)
-            formError.textContent = 'Name must be at least 2 characters long.';
-          hasError = true;
-        }
-
-        if (!email) {
-          if (formError) formError.textContent = 'Email is required.';
-          hasError = true;
-        } else if (!email.endsWith('@stud.noroff.no')) {
-          if (formError)
-            formError.textContent =
-              'Email must be a valid @stud.noroff.no address.';
-          hasError = true;
-        }
-
-        if (!password) {
-          if (formError) formError.textContent = 'Password is required.';
-          hasError = true;
-        } else if (password.length < 8) {
-          if (formError)
-            formError.textContent =
-              'Password must be at least 8 characters long.';
-          hasError = true;
-        }
-
-        if (hasError) return;
-
-        // Disable form during submission
-        if (submitBtn) {
-          submitBtn.disabled = true;
-          submitBtn.textContent = '🔄 Creating Account...';
-        }
-
-        // Show loading screen during registration
-        const loadingScreen = (window as any).loadingScreen;
-        if (loadingScreen) {
-          loadingScreen.showWithMessage('Creating your account...');
-        }
-
-        try {
-          console.log('Attempting registration with:', { name, email });
-
-          // Prepare registration data
-          const registrationData: RegisterData = {
-            name,
-            email,
-            password,
-            ...(bio && { bio }), // Only include bio if it's provided
-          };
-
-          const result: ApiResponse<RegisterResponse> =
-            await registerUser(registrationData);
-
-          if (result.errors && result.errors.length > 0) {
-            // Handle API errors with specific messages
-            const errorMessage =
-              result.errors[0]?.message || 'Registration failed.';
-
-            if (formError) {
-              // Provide more specific error messages based on API response
-              if (
-                errorMessage.toLowerCase().includes('email') &&
-                errorMessage.toLowerCase().includes('exist')
-              ) {
-                formError.textContent =
-                  ' An account with this email already exists. Try logging in instead.';
-              } else if (
-                errorMessage.toLowerCase().includes('email') &&
-                errorMessage.toLowerCase().includes('invalid')
-              ) {
-                formError.textContent =
-                  ' Please enter a valid @stud.noroff.no email address.';
-              } else if (errorMessage.toLowerCase().includes('password')) {
-                formError.textContent =
-                  " Password doesn't meet requirements. Use at least 8 characters.";
-              } else if (errorMessage.toLowerCase().includes('name')) {
-                formError.textContent =
-                  ' Please enter a valid name (at least 2 characters).';
-              } else if (errorMessage.toLowerCase().includes('already')) {
-                formError.textContent =
-                  ' This email is already registered. Please use the login page.';
-              } else {
-                // Show the original API error message if we can't categorize it
-                formError.textContent = ` ${errorMessage}`;
-              }
-            }
-          } else if (result.data) {
-            // Successful registration
-            if (formError) {
-              formError.style.color = 'green';
-              formError.textContent =
-                '✅ Account created successfully! Redirecting to login page...';
-            }
-
-            // Clear form
-            form.reset();
-
-            // Redirect to login page after success
-            setTimeout(() => {
-              history.pushState({ path: '/' }, '', '/');
-              renderRoute('/');
-            }, 2000);
-          } else {
-            // Unexpected response format
-            if (formError) {
-              formError.textContent = 'Unexpected response from server.';
-            }
-          }
-        } catch (error) {
-          console.error('Registration error:', error);
-          if (formError) {
-            formError.textContent = 'Network error. Please try again.';
-          }
-        } finally {
-          // Hide loading screen
-          const loadingScreen = (window as any).loadingScreen;
-          if (loadingScreen) {
-            loadingScreen.hideLoadingScreen();
-          }
+const RegisterPage: PageComponent = {
+  render: renderRegisterPage,
+  mount: mountRegisterPage,
+};
 
-          // Re-enable form
-          if (submitBtn) {
-            submitBtn.disabled = false;
-            submitBtn.textContent = '✨ Create Account';
-          }
-        }
-      });
-    }
-
-    // Handle login link
-    const loginLink = document.getElementById('login-link');
-    if (loginLink) {
-      loginLink.addEventListener('click', (e) => {
-        e.preventDefault();
-        history.pushState({ path: '/' }, '', '/');
-        renderRoute('/');
-      });
-    }
-  }, 0);
+export default RegisterPage;
 
+async function renderRegisterPage() {
   return `
     <div class="page active" id="registerPage">
         <div class="auth-container">
@@ -244,3 +65,187 @@ export default async function RegisterPage() {
     </div>
   `;
 }
+
+/**
+ * Wires up the registration form once it is on screen
+ */
+function mountRegisterPage(): void {
+  const form = document.getElementById('registerForm') as HTMLFormElement;
+  if (form) {
+    const submitBtn = form.querySelector(
+      "button[type='submit']"
+    ) as HTMLButtonElement;
+
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+
+      const nameInput = document.getElementById(
+        'registerName'
+      ) as HTMLInputElement;
+      const emailInput = document.getElementById(
+        'registerEmail'
+      ) as HTMLInputElement;
+      const passwordInput = document.getElementById(
+        'registerPassword'
+      ) as HTMLInputElement;
+      const bioInput = document.getElementById(
+        'registerBio'
+      ) as HTMLTextAreaElement;
+      const formError = document.getElementById('registerMessage');
+
+      if (!nameInput || !emailInput || !passwordInput) {
+        console.error('Form inputs not found');
+        return;
+      }
+
+      const name = nameInput.value.trim();
+      const email = emailInput.value.trim();
+      const password = passwordInput.value;
+      const bio = bioInput?.value?.trim() || undefined;
+
+      // Reset previous messages
+      if (formError) {
+        formError.textContent = '';
+        formError.style.color = 'red';
+      }
+
+      let hasError = false;
+
+      // Validation
+      if (!name) {
+        if (formError) formError.textContent = 'Name is required.';
+        hasError = true;
+      } else if (name.length < 2) {
+        if (formError)
+          formError.textContent = 'Name must be at least 2 characters long.';
+        hasError = true;
+      }
+
+      if (!email) {
+        if (formError) formError.textContent = 'Email is required.';
+        hasError = true;
+      } else if (!email.endsWith('@stud.noroff.no')) {
+        if (formError)
+          formError.textContent =
+            'Email must be a valid @stud.noroff.no address.';
+        hasError = true;
+      }
+
+      if (!password) {
+        if (formError) formError.textContent = 'Password is required.';
+        hasError = true;
+      } else if (password.length < 8) {
+        if (formError)
+          formError.textContent =
+            'Password must be at least 8 characters long.';
+        hasError = true;
+      }
+
+      if (hasError) return;
+
+      // Disable form during submission
+      if (submitBtn) {
+        submitBtn.disabled = true;
+        submitBtn.textContent = '🔄 Creating Account...';
+      }
+
+      // Show loading screen during registration
+      getLoadingScreen().showWithMessage('Creating your account...');
+
+      try {
+        console.log('Attempting registration with:', { name, email });
+
+        // Prepare registration data
+        const registrationData: RegisterData = {
+          name,
+          email,
+          password,
+          ...(bio && { bio }), // Only include bio if it's provided
+        };
+
+        const result: ApiResponse<RegisterResponse> =
+          await registerUser(registrationData);
+
+        if (result.errors && result.errors.length > 0) {
+          // Handle API errors with specific messages
+          const errorMessage =
+            result.errors[0]?.message || 'Registration failed.';
+
+          if (formError) {
+            // Provide more specific error messages based on API response
+            if (
+              errorMessage.toLowerCase().includes('email') &&
+              errorMessage.toLowerCase().includes('exist')
+            ) {
+              formError.textContent =
+                ' An account with this email already exists. Try logging in instead.';
+            } else if (
+              errorMessage.toLowerCase().includes('email') &&
+              errorMessage.toLowerCase().includes('invalid')
+            ) {
+              formError.textContent =
+                ' Please enter a valid @stud.noroff.no email address.';
+            } else if (errorMessage.toLowerCase().includes('password')) {
+              formError.textContent =
+                " Password doesn't meet requirements. Use at least 8 characters.";
+            } else if (errorMessage.toLowerCase().includes('name')) {
+              formError.textContent =
+                ' Please enter a valid name (at least 2 characters).';
+            } else if (errorMessage.toLowerCase().includes('already')) {
+              formError.textContent =
+                ' This email is already registered. Please use the login page.';
+            } else {
+              // Show the original API error message if we can't categorize it
+              formError.textContent = ` ${errorMessage}`;
+            }
+          }
+        } else if (result.data) {
+          // Successful registration
+          if (formError) {
+            formError.style.color = 'green';
+            formError.textContent =
+              '✅ Account created successfully! Redirecting to login page...';
+          }
+
+          // Clear form
+          form.reset();
+
+          // Redirect to login page after success
+          setTimeout(() => {
+            history.pushState({ path: '/' }, '', '/');
+            renderRoute('/');
+          }, 2000);
+        } else {
+          // Unexpected response format
+          if (formError) {
+            formError.textContent = 'Unexpected response from server.';
+          }
+        }
+      } catch (error) {
+        console.error('Registration error:', error);
+        if (formError) {
+          formError.textContent = 'Network error. Please try again.';
+        }
+      } finally {
+        // Hide loading screen
+        getLoadingScreen().hideLoadingScreen();
+
+        // Re-enable form
+        if (submitBtn) {
+          submitBtn.disabled = false;
+          submitBtn.textContent = '✨ Create Account';
+        }
+      }
+    });
+  }
+
+  // Handle login link
+  const loginLink = document.getElementById('login-link');
+  if (loginLink) {
+    loginLink.addEventListener('click', (e) => {
+      e.preventDefault();
+      history.pushState({ path: '/' }, '', '/');
+      renderRoute('/');
+    });
+  }
+}
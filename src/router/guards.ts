@@ -0,0 +1,139 @@
+/**
+ * @file router/guards.ts
+ * @description Navigation guard pipeline for the router. Global `beforeEach`
+ * / `afterEach` hooks, per-route `beforeEnter` / `afterEnter` hooks, and a
+ * registry of leave guards that ask before unsaved changes are discarded.
+ */
+
+import type {
+  AfterNavigationHook,
+  NavigationGuard,
+  NavigationTarget,
+} from '../types';
+
+export const LEAVE_CONFIRM_MESSAGE =
+  'You have unsaved changes. Are you sure you want to leave this page?';
+
+const beforeHooks: NavigationGuard[] = [];
+const afterHooks: AfterNavigationHook[] = [];
+const leaveGuards = new Set<() => boolean>();
+
+/**
+ * Registers a guard that runs before every navigation.
+ *
+ * @param guard Returns `false` to cancel, a path to redirect, or nothing to continue
+ * @returns A function that removes the guard
+ */
+export function beforeEach(guard: NavigationGuard): () => void {
+  beforeHooks.push(guard);
+  return () => removeItem(beforeHooks, guard);
+}
+
+/**
+ * Registers a hook that runs after every page has been rendered.
+ *
+ * @returns A function that removes the hook
+ */
+export function afterEach(hook: AfterNavigationHook): () => void {
+  afterHooks.push(hook);
+  return () => removeItem(afterHooks, hook);
+}
+
+/**
+ * Runs the global guards, then the route's own `beforeEnter`.
+ *
+ * @returns `true` to continue, `false` to cancel, or the path to redirect to
+ */
+export async function runBeforeGuards(
+  to: NavigationTarget
+): Promise<boolean | string> {
+  const guards = to.route.beforeEnter
+    ? [...beforeHooks, to.route.beforeEnter]
+    : beforeHooks;
+
+  for (const guard of guards) {
+    const result = await guard(to);
+    if (result === false || typeof result === 'string') return result;
+  }
+
+  return true;
+}
+
+/**
+ * Runs the route's `afterEnter`, then the global `afterEach` hooks. A failing
+ * hook is logged and does not stop the others.
+ */
+export function runAfterHooks(to: NavigationTarget): void {
+  const hooks = to.route.afterEnter
+    ? [to.route.afterEnter, ...afterHooks]
+    : afterHooks;
+
+  hooks.forEach((hook) => {
+    try {
+      hook(to);
+    } catch (error) {
+      console.error('Navigation hook failed:', error);
+    }
+  });
+}
+
+/**
+ * Registers a check for unsaved changes on the current page. Leave guards are
+ * cleared on every navigation, so pages register them again when they mount.
+ *
+ * @param hasUnsavedChanges Returns `true` while leaving would lose work
+ * @returns A function that removes the guard
+ */
+export function registerLeaveGuard(hasUnsavedChanges: () => boolean) {
+  leaveGuards.add(hasUnsavedChanges);
+  return () => {
+    leaveGuards.delete(hasUnsavedChanges);
+  };
+}
+
+export function clearLeaveGuards(): void {
+  leaveGuards.clear();
+}
+
+function hasUnsavedChanges(): boolean {
+  return [...leaveGuards].some((check) => check());
+}
+
+/**
+ * Asks the user to confirm leaving when the current page has unsaved changes.
+ *
+ * @returns `true` if navigation may continue
+ */
+export function confirmLeave(): boolean {
+  return !hasUnsavedChanges() || window.confirm(LEAVE_CONFIRM_MESSAGE);
+}
+
+/**
+ * Builds the login URL that sends the user back to `path` after signing in.
+ */
+export function loginRedirectUrl(path: string): string {
+  return path && path !== '/' ? `/?redirect=${encodeURIComponent(path)}` : '/';
+}
+
+/**
+ * Validates a `redirect` query value so it can only point inside the app.
+ *
+ * @returns The path to redirect to, or `null` if it is missing or unsafe
+ */
+export function getSafeRedirect(value: string | null): string | null {
+  if (!value || !value.startsWith('/') || value.startsWith('//')) return null;
+  return value;
+}
+
+function removeItem<T>(list: T[], item: T): void {
+  const index = list.indexOf(item);
+  if (index !== -1) list.splice(index, 1);
+}
+
+// Closing or reloading the tab skips the router, so ask the browser as well
+window.addEventListener('beforeunload', (event) => {
+  if (hasUnsavedChanges()) {
+    event.preventDefault();
+    event.returnValue = '';
+  }
+});
@@ -13,12 +13,32 @@ import { lazyLoadImgs } from '../utils/lazy-load-img';
 import { APP_CONTAINER_CLASSNAME } from '../constant';
 import LoginPage from '../pages/LogInPage';
 import RegisterPage from '../pages/RegisterPage';
+import PostPage from '../pages/PostPage';
 import { isLoggedIn } from '../utils/auth';
+import { abortPageRequests } from '../services/api/client';
+import { getLoadingScreen } from '../pages/LoadingScreen';
+import { store } from '../store';
+import { createOutlet, type Outlet } from '../utils/component';
+import {
+  beforeEach,
+  clearLeaveGuards,
+  confirmLeave,
+  loginRedirectUrl,
+  runAfterHooks,
+  runBeforeGuards,
+} from './guards';
+import type {
+  NavigationTarget,
+  PageComponent,
+  RouteContext,
+  RouteDefinition,
+} from '../types';
 
-const PATHS = {
+const PATHS: Record<string, RouteDefinition> = {
   login: {
     url: '/',
     component: LoginPage,
+    guestOnly: true,
   },
   feed: {
     url: '/feed',
@@ -30,70 +50,208 @@ const PATHS = {
     component: ProfilePage,
     protected: true,
   },
+  userProfile: {
+    url: '/profile/:name',
+    component: ProfilePage,
+    protected: true,
+  },
   register: {
     url: '/register',
     component: RegisterPage,
+    guestOnly: true,
+  },
+  post: {
+    url: '/post/:id',
+    component: PostPage,
+    protected: true,
+  },
+  tags: {
+    url: '/tags/:tag',
+    component: FeedPage,
+    protected: true,
   },
-} as const;
+};
+
+/**
+ * Matches a path against a route pattern where `:name` segments match any value.
+ *
+ * @param pattern - The route pattern, e.g. `/tags/:tag`.
+ * @param path - The URL path to test.
+ * @returns The matched params, or `null` if the path does not match.
+ */
+export function matchPath(
+  pattern: string,
+  path: string
+): Record<string, string> | null {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    if (segment.startsWith(':')) {
+      try {
+        params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+      } catch {
+        return null; // Malformed escape sequence
+      }
+    } else if (segment !== pathSegments[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Finds the route definition matching a path.
+ *
+ * @param pathname - The URL path, without the query string.
+ * @param routes - The route definitions to search.
+ * @returns The matched route and its params, or `null` if nothing matches.
+ */
+export function resolveRoute(
+  pathname: string,
+  routes: Record<string, RouteDefinition> = PATHS
+): { route: RouteDefinition; params: Record<string, string> } | null {
+  for (const route of Object.values(routes)) {
+    const params = matchPath(route.url, pathname);
+    if (params) return { route, params };
+  }
+
+  return null;
+}
+
+interface RouteResult {
+  component: PageComponent;
+  props: RouteContext;
+  html: string;
+  /** The navigation that was rendered, `null` for the not-found page */
+  target: NavigationTarget | null;
+}
+
+async function renderPage(
+  component: PageComponent,
+  props: RouteContext,
+  target: NavigationTarget | null
+): Promise<RouteResult> {
+  return { component, props, html: await component.render(props), target };
+}
+
+// Redirect loops between guards end on the not-found page
+const MAX_REDIRECTS = 5;
+
+// Signed-in state decides who may enter protected and guest-only routes
+beforeEach((to) => {
+  if (to.route.protected && !isLoggedIn()) return loginRedirectUrl(to.path);
+  if (to.route.guestOnly && isLoggedIn()) return '/feed';
+});
 
 /**
  * Handles routing logic for the application by matching the current path to a route definition.
  *
- * @param currentPath - The current URL path to match against the route definitions.
+ * @param currentPath - The URL to match, optionally including a query string.
  * @param routes - An object containing route definitions, where each route has a `url` and a `component`.
- * @returns The HTML string generated by the matched route's component, or the NotFoundPage if no match is found.
+ * @returns The matched route's component with its props and rendered HTML (or the NotFoundPage if no match is found), or `null` if a guard cancelled the navigation.
+ *
+ * @remarks
+ * Components receive the route's `params` and the parsed `query`. A path
+ * without a query string that points at the current page keeps the query of
+ * the address bar, so re-rendering `/feed` doesn't drop `?feed=following`.
+ * Guards that redirect replace the current history entry and route again.
  */
 export default async function router(
   currentPath = '',
-  routes = PATHS
-): Promise<string> {
-  // Find the matching route by path
-  const currentRoute = Object.values(routes).find(
-    (route) => route.url === currentPath
-  );
+  routes = PATHS,
+  redirectCount = 0
+): Promise<RouteResult | null> {
+  const url = new URL(currentPath, window.location.origin);
+  const query =
+    !currentPath.includes('?') && url.pathname === window.location.pathname
+      ? new URLSearchParams(window.location.search)
+      : url.searchParams;
+
+  const match = resolveRoute(url.pathname, routes);
+  if (!match) return renderPage(NotFoundPage, { params: {}, query }, null);
+
+  const search = query.toString();
+  const target: NavigationTarget = {
+    path: search ? `${url.pathname}?${search}` : url.pathname,
+    params: match.params,
+    query,
+    route: match.route,
+  };
 
-  let html = await NotFoundPage();
-
-  if (currentRoute) {
-    // Check if route is protected and user is not logged in
-    if ((currentRoute as any).protected && !isLoggedIn()) {
-      // Redirect to login page
-      history.pushState({ path: '/' }, '', '/');
-      html = await LoginPage();
-    } else if (currentPath === '/' && isLoggedIn()) {
-      // If user is logged in and tries to access login page, redirect to feed
-      history.pushState({ path: '/feed' }, '', '/feed');
-      html = await FeedPage();
-    } else {
-      html = await currentRoute.component();
+  const result = await runBeforeGuards(target);
+  if (result === false) return null;
+
+  if (typeof result === 'string') {
+    if (redirectCount >= MAX_REDIRECTS) {
+      console.error(`Too many redirects while navigating to ${target.path}`);
+      return renderPage(NotFoundPage, { params: {}, query }, null);
     }
+
+    history.replaceState({ path: result }, '', result);
+    return router(result, routes, redirectCount + 1);
   }
 
-  return html;
+  // Leave guards belong to the page being replaced
+  clearLeaveGuards();
+
+  const context: RouteContext = { params: target.params, query };
+  return renderPage(match.route.component, context, target);
 }
 
+// Incremented on every navigation so late responses can be recognised as stale
+let navigationId = 0;
+// The URL of the page currently on screen, restored when navigation is cancelled
+let renderedPath: string | null = null;
+// Position of that page's history entry, so a cancelled back/forward can be undone
+let renderedIndex = -1;
+// Set while undoing a cancelled back/forward, whose own popstate must not route
+let ignoreNextPopState = false;
+// Mounts pages into the app container, unmounting the previous one
+let pageOutlet: Outlet | null = null;
+
 /**
  * Renders the content for a given route path by updating the main content container.
  *
- * @param path - The optional route path to render. If not provided, uses the current window location pathname.
+ * @param path - The optional route path to render, with or without a query string. If not provided, uses the current window location.
  * @returns A promise that resolves when the route content has been rendered and any post-render logic has executed.
  *
  * @remarks
- * - Updates the inner HTML of the main application container with the result of the router function.
- * - Executes any post-render logic (e.g., lazy loading images) after the content is rendered.
+ * - Asks before leaving a page with unsaved changes, and puts the previous URL
+ *   back if the user stays or a guard cancels the navigation.
+ * - Unmounts the previous page, puts the new page's HTML in the main application container and mounts it.
+ *   A page rendered again with new params or query is updated instead, if it supports that.
+ * - Executes any post-render logic (e.g., lazy loading images, `afterEnter` and `afterEach` hooks) after the content is rendered.
  * - If the path or content container is not available, the function exits early.
+ * - Cancels in-flight page requests of the previous route and ignores its result
+ *   if another navigation started while it was loading.
  */
 export async function renderRoute(path?: string | undefined) {
-  path = path ?? window.location.pathname;
+  path = path ?? window.location.pathname + window.location.search;
 
   // Get the element where content will be rendered
   const contentContainer = document.getElementById(APP_CONTAINER_CLASSNAME);
 
   if (!path || !contentContainer) return;
 
+  if (!confirmLeave()) {
+    restoreRenderedPath();
+    return;
+  }
+
+  // Cancel the previous page's fetches so they can't overwrite this one
+  abortPageRequests();
+  const currentNavigation = ++navigationId;
+
   // Show loading screen for login and register pages
-  const loadingScreen = (window as any).loadingScreen;
-  if (loadingScreen && (path === '/login' || path === '/register')) {
+  const loadingScreen = getLoadingScreen();
+  if (path === '/login' || path === '/register') {
     loadingScreen.showWithMessage(
       path === '/login' ? 'Loading Sign In...' : 'Loading Registration...'
     );
@@ -102,12 +260,29 @@ export async function renderRoute(path?: string | undefined) {
     await new Promise((resolve) => setTimeout(resolve, 1000));
   }
 
-  const html = await router(path);
+  const result = await router(path);
 
-  contentContainer.innerHTML = html;
+  // A newer navigation started while this page was loading
+  if (currentNavigation !== navigationId) return;
+
+  if (!result) {
+    restoreRenderedPath();
+    return;
+  }
+
+  if (pageOutlet?.root !== contentContainer) {
+    pageOutlet = createOutlet(contentContainer);
+  }
+  pageOutlet.show(result.component, result.html, result.props);
+  renderedPath = window.location.pathname + window.location.search;
+  // Entries pushed by the app have no index yet; back/forward keeps theirs
+  const index = history.state?.index;
+  renderedIndex = typeof index === 'number' ? index : renderedIndex + 1;
+  history.replaceState({ ...history.state, index: renderedIndex }, '');
+  store.dispatch({ type: 'route/changed', path: renderedPath });
 
   // Hide loading screen after content is rendered
-  if (loadingScreen && (path === '/login' || path === '/register')) {
+  if (path === '/login' || path === '/register') {
     setTimeout(() => {
       loadingScreen.hideLoadingScreen();
     }, 500);
@@ -115,4 +290,35 @@ export async function renderRoute(path?: string | undefined) {
 
   // Run any code that needs DOM elements here after route render;
   lazyLoadImgs();
+  if (result.target) runAfterHooks(result.target);
+}
+
+/**
+ * Routes after the browser's back or forward buttons, unless the popstate came
+ * from undoing a cancelled one.
+ */
+export function handlePopState() {
+  if (ignoreNextPopState) {
+    ignoreNextPopState = false;
+    return;
+  }
+  renderRoute();
+}
+
+function restoreRenderedPath() {
+  if (!renderedPath) return;
+
+  // Back/forward already moved to another entry: move back instead of
+  // overwriting that entry with this page's URL
+  const index = history.state?.index;
+  if (typeof index === 'number' && index !== renderedIndex) {
+    ignoreNextPopState = true;
+    history.go(renderedIndex - index);
+    return;
+  }
+  history.replaceState(
+    { ...history.state, path: renderedPath, index: renderedIndex },
+    '',
+    renderedPath
+  );
 }
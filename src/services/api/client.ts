@@ -2,20 +2,50 @@
  * @file client.ts
  * @description API client for handling requests to the Noroff API (v2).
  * Handles authentication, API keys, JSON parsing, and errors.
+ * Failed requests reject with the typed errors from `types/index.ts`
+ * (`AuthError`, `ValidationError`, `NotFoundError`, `OfflineError`, ...).
  */
 
 import { API_URL } from "../../constant";
-import { getLocalItem } from "../../utils/storage";
-import { ApiError } from "../error/error";
-import type {
-  LoginCredentials,
-  RegisterData,
-  ApiResponse,
-  LoginResponse,
-  RegisterResponse,
+import { getCurrentUser } from "../../utils/auth";
+import { createApiError } from "../error/error";
+import {
+  SESSION_EXPIRED_MESSAGE,
+  handleSessionExpired,
+  isSessionExpired,
+} from "../auth/session";
+import {
+  AuthError,
+  NetworkError,
+  OfflineError,
+  TimeoutError,
+  type LoginCredentials,
+  type RegisterData,
+  type ApiResponse,
+  type LoginResponse,
+  type RegisterResponse,
 } from "../../types/index";
 
-interface ApiClientOptions extends Omit<RequestInit, "body"> {
+/**
+ * Per-call request options accepted by the helper methods.
+ */
+export interface RequestOptions {
+  /** Abort the attempt after this many milliseconds */
+  timeout?: number;
+  /** How many times an idempotent request is retried on 429/5xx/network failures */
+  retries?: number;
+  /** Cancels the request; GETs default to the current page's signal */
+  signal?: AbortSignal;
+  /**
+   * Sends a write again once the user has signed back in after their session
+   * expired. On by default; turn it off when the caller keeps the write itself.
+   */
+  replayAfterLogin?: boolean;
+}
+
+interface ApiClientOptions
+  extends Omit<RequestInit, "body" | "signal">,
+    RequestOptions {
   body?: BodyInit | object | null;
 }
 
@@ -23,12 +53,172 @@ type Endpoint = string;
 
 const API_KEY_HEADER = "X-Noroff-API-Key";
 
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+const RETRY_AFTER_LIMIT = 30000;
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/* -------------------------------------------------------------------------- */
+/*                            Cancellation & Retry                            */
+/* -------------------------------------------------------------------------- */
+
+let pageController = new AbortController();
+
+/**
+ * Cancels all in-flight page reads and starts a fresh scope.
+ * Called by the router on every route change so stale responses are dropped.
+ */
+export function abortPageRequests(): void {
+  pageController.abort();
+  pageController = new AbortController();
+}
+
+/**
+ * Checks whether an error was caused by an aborted request.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("The request was aborted.", "AbortError");
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter, unless the server told us how long to wait.
+ */
+function getRetryDelay(attempt: number, retryAfter: number | null = null) {
+  if (retryAfter !== null) return Math.min(retryAfter, RETRY_AFTER_LIMIT);
+  const ceiling = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a single fetch attempt that is aborted by either the caller's signal
+ * or the timeout.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new TimeoutError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Fetches with timeout, retrying idempotent requests with jittered backoff
+ * on 429/5xx responses and network failures.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  {
+    timeout = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    signal,
+  }: RequestOptions
+): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const maxRetries = IDEMPOTENT_METHODS.includes(method) ? retries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await fetchWithTimeout(url, init, timeout, signal);
+    } catch (error) {
+      // Cancelled by the caller: never retry
+      if (signal?.aborted || attempt >= maxRetries) throw error;
+      await wait(getRetryDelay(attempt), signal);
+      continue;
+    }
+
+    if (attempt >= maxRetries || !isRetryableStatus(response.status)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    await wait(getRetryDelay(attempt, retryAfter), signal);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 API Client                                 */
+/* -------------------------------------------------------------------------- */
+
 /**
  * Generic API client for making HTTP requests.
  * Automatically attaches headers for JSON, API key, and access token.
+ * Expired sessions are routed back to login; write requests are replayed
+ * after the user signs in again.
  */
-async function apiClient(endpoint: string, options: ApiClientOptions = {}) {
-  const { body, ...customOptions } = options;
+async function apiClient(
+  endpoint: string,
+  options: ApiClientOptions = {}
+): Promise<any> {
+  const {
+    body,
+    timeout,
+    retries,
+    signal,
+    replayAfterLogin = true,
+    ...customOptions
+  } = options;
 
   const headers: Record<string, string> = {};
 
@@ -53,8 +243,7 @@ async function apiClient(endpoint: string, options: ApiClientOptions = {}) {
   }
 
   // Attach auth headers
-  const apiKey = getLocalItem("apiKey");
-  const accessToken = getLocalItem("accessToken");
+  const { apiKey, accessToken } = getCurrentUser();
 
   if (apiKey)
     (config.headers as Record<string, string>)[API_KEY_HEADER] = apiKey;
@@ -62,64 +251,105 @@ async function apiClient(endpoint: string, options: ApiClientOptions = {}) {
     (config.headers as Record<string, string>)["Authorization"] =
       `Bearer ${accessToken}`;
 
+  // Reads are replayed by re-rendering the route, so only queue writes
+  const replay =
+    config.method !== "GET" && replayAfterLogin
+      ? () => apiClient(endpoint, options)
+      : undefined;
+
+  if (isSessionExpired()) {
+    handleSessionExpired(replay);
+    throw new AuthError(SESSION_EXPIRED_MESSAGE);
+  }
+
+  let response: Response;
+
   try {
-    const response = await fetch(API_URL + endpoint, config);
-
-    const contentType = response.headers.get("content-type");
-
-    // Handle empty/204 responses
-    if (
-      response.status === 204 ||
-      !contentType ||
-      !contentType.includes("application/json")
-    ) {
-      if (!response.ok) {
-        throw new ApiError(`HTTP Error: ${response.status}`, response.status);
-      }
-      return null;
+    response = await fetchWithRetry(API_URL + endpoint, config, {
+      timeout,
+      retries,
+      // Page reads are cancelled on route change unless the caller opts out
+      signal:
+        signal ?? (config.method === "GET" ? pageController.signal : undefined),
+    });
+  } catch (error) {
+    if (isAbortError(error) || error instanceof TimeoutError) {
+      throw error;
     }
+    // fetch only rejects when the request never got a response
+    throw navigator.onLine === false
+      ? new OfflineError()
+      : new NetworkError("A network or client error occurred.");
+  }
 
-    const responseData = await response.json();
+  if (response.status === 401 && accessToken) {
+    handleSessionExpired(replay);
+    throw new AuthError(SESSION_EXPIRED_MESSAGE);
+  }
 
+  const contentType = response.headers.get("content-type");
+  const isJson = !!contentType && contentType.includes("application/json");
+
+  // Handle empty/204 responses
+  if (response.status === 204 || !isJson) {
     if (!response.ok) {
-      const message =
-        responseData.errors?.[0]?.message || `HTTP Error: ${response.status}`;
-      throw new ApiError(message, response.status);
+      throw createApiError(
+        response.status,
+        null,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
     }
+    return null;
+  }
 
-    return responseData;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    throw new Error("A network or client error occurred.");
+  const responseData = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw createApiError(
+      response.status,
+      responseData,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
   }
+
+  return responseData;
 }
 
 /* -------------------------------------------------------------------------- */
 /*                               Helper Methods                               */
 /* -------------------------------------------------------------------------- */
 
-export const get = <T = unknown>(endpoint: Endpoint): Promise<T> =>
-  apiClient(endpoint);
+/**
+ * GET request. Retried on failure and cancelled on route change by default.
+ */
+export const get = <T = unknown>(
+  endpoint: Endpoint,
+  options: RequestOptions = {}
+): Promise<T> => apiClient(endpoint, options);
 
 /**
- * POST request with JSON body.
+ * POST request with JSON body. Never retried, as it is not idempotent.
  */
-export const post = (endpoint: Endpoint, body: object) =>
-  apiClient(endpoint, { method: "POST", body });
+export const post = (
+  endpoint: Endpoint,
+  body: object,
+  options: RequestOptions = {}
+) => apiClient(endpoint, { ...options, method: "POST", body });
 
 /**
  * PUT request with JSON body.
  */
-export const put = (endpoint: Endpoint, body: object) =>
-  apiClient(endpoint, { method: "PUT", body });
+export const put = (
+  endpoint: Endpoint,
+  body: object,
+  options: RequestOptions = {}
+) => apiClient(endpoint, { ...options, method: "PUT", body });
 
 /**
  * DELETE request.
  */
-export const del = (endpoint: Endpoint) =>
-  apiClient(endpoint, { method: "DELETE" });
+export const del = (endpoint: Endpoint, options: RequestOptions = {}) =>
+  apiClient(endpoint, { ...options, method: "DELETE" });
 
 /* -------------------------------------------------------------------------- */
 /*                          Auth Helper Functions                             */
@@ -0,0 +1,85 @@
+/**
+ * @file pagination.test.ts
+ * @description Unit tests for the paginated list helper.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from './client';
+import { buildListQuery, createPaginatedList } from './pagination';
+
+vi.mock('./client', () => ({ get: vi.fn() }));
+
+const mockedGet = vi.mocked(get);
+
+function pageResponse(page: number, pageCount: number) {
+  return {
+    data: [`item-${page}`],
+    meta: {
+      isFirstPage: page === 1,
+      isLastPage: page === pageCount,
+      currentPage: page,
+      previousPage: page > 1 ? page - 1 : null,
+      nextPage: page < pageCount ? page + 1 : null,
+      pageCount,
+      totalCount: pageCount,
+    },
+  };
+}
+
+describe('buildListQuery', () => {
+  it('includes paging, sorting and filters while skipping unset values', () => {
+    const query = buildListQuery({
+      limit: 10,
+      page: 2,
+      sort: 'created',
+      sortOrder: 'desc',
+      filters: { _tag: 'coding', _author: true, q: undefined },
+    });
+
+    expect(query.toString()).toBe(
+      'limit=10&page=2&sort=created&sortOrder=desc&_tag=coding&_author=true'
+    );
+  });
+});
+
+describe('createPaginatedList', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    mockedGet.mockImplementation(async (endpoint: string) => {
+      const page = Number(
+        new URL(endpoint, 'http://x').searchParams.get('page')
+      );
+      return pageResponse(page, 3);
+    });
+  });
+
+  it('moves forwards and backwards through pages', async () => {
+    const list = createPaginatedList<string>('/social/posts', { limit: 1 });
+
+    expect(list.hasPrev()).toBe(false);
+    expect((await list.next())?.data).toEqual(['item-1']);
+    expect((await list.next())?.data).toEqual(['item-2']);
+    expect(list.hasPrev()).toBe(true);
+    expect((await list.prev())?.data).toEqual(['item-1']);
+    expect(list.meta?.currentPage).toBe(1);
+  });
+
+  it('returns null when there is no next page', async () => {
+    const list = createPaginatedList<string>('/social/posts');
+
+    await list.page(3);
+
+    expect(list.hasNext()).toBe(false);
+    expect(await list.next()).toBeNull();
+  });
+
+  it('iterates over every item of every page', async () => {
+    const list = createPaginatedList<string>('/social/posts');
+    const items: string[] = [];
+
+    for await (const item of list) items.push(item);
+
+    expect(items).toEqual(['item-1', 'item-2', 'item-3']);
+    expect(mockedGet).toHaveBeenCalledTimes(3);
+  });
+});
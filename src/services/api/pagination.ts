@@ -0,0 +1,145 @@
+/**
+ * @file pagination.ts
+ * @description Reusable pagination helper for Noroff list endpoints.
+ * Builds list query strings and exposes a cursor with `next()`, `prev()`,
+ * `page(n)` and async iteration over every item.
+ */
+
+import { get, type RequestOptions } from './client';
+import type {
+  ListQueryOptions,
+  PaginatedResponse,
+  PaginationMeta,
+} from '../../types';
+
+export interface PaginatedList<T> {
+  /** Items of the most recently loaded page */
+  readonly items: T[];
+  /** Meta of the most recently loaded page, `null` before the first load */
+  readonly meta: PaginationMeta | null;
+  hasNext(): boolean;
+  hasPrev(): boolean;
+  /** Loads a specific page and moves the cursor to it */
+  page(pageNumber: number): Promise<PaginatedResponse<T>>;
+  /** Loads the next page, or the first one if nothing was loaded yet */
+  next(): Promise<PaginatedResponse<T> | null>;
+  /** Loads the previous page */
+  prev(): Promise<PaginatedResponse<T> | null>;
+  /** Iterates over every item of every page, fetching pages lazily */
+  [Symbol.asyncIterator](): AsyncIterator<T>;
+}
+
+/**
+ * Builds the query string for a Noroff list endpoint.
+ *
+ * @param options Paging, sorting and filter options
+ * @returns The query parameters, skipping options that are not set
+ */
+export function buildListQuery(options: ListQueryOptions = {}) {
+  const { limit, page, sort, sortOrder, filters = {} } = options;
+  const params = new URLSearchParams();
+
+  if (limit !== undefined) params.set('limit', limit.toString());
+  if (page !== undefined) params.set('page', page.toString());
+  if (sort) params.set('sort', sort);
+  if (sortOrder) params.set('sortOrder', sortOrder);
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  return params;
+}
+
+/**
+ * Fetches a single page of a Noroff list endpoint.
+ */
+export function fetchPage<T>(
+  endpoint: string,
+  options: ListQueryOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<PaginatedResponse<T>> {
+  const query = buildListQuery(options).toString();
+  return get<PaginatedResponse<T>>(
+    query ? `${endpoint}?${query}` : endpoint,
+    requestOptions
+  );
+}
+
+/**
+ * Wraps a Noroff list endpoint in a paginated cursor.
+ *
+ * @param endpoint The list endpoint, e.g. `/social/posts`
+ * @param options Page size, starting page, sort and filter options
+ * @param requestOptions Timeout/retry/cancellation options for every page
+ *
+ * @example
+ * ```typescript
+ * const posts = createPaginatedList<NoroffPost>('/social/posts', {
+ *   limit: 15,
+ *   filters: { _tag: 'coding' },
+ * });
+ * const firstPage = await posts.next();
+ * for await (const post of posts) console.log(post.title);
+ * ```
+ */
+export function createPaginatedList<T>(
+  endpoint: string,
+  options: ListQueryOptions = {},
+  requestOptions: RequestOptions = {}
+): PaginatedList<T> {
+  const startPage = options.page ?? 1;
+  let items: T[] = [];
+  let meta: PaginationMeta | null = null;
+
+  const load = async (pageNumber: number) => {
+    const response = await fetchPage<T>(
+      endpoint,
+      { ...options, page: pageNumber },
+      requestOptions
+    );
+    items = response.data ?? [];
+    meta = response.meta;
+    return response;
+  };
+
+  return {
+    get items() {
+      return items;
+    },
+    get meta() {
+      return meta;
+    },
+    hasNext() {
+      return !meta || (!meta.isLastPage && meta.nextPage !== null);
+    },
+    hasPrev() {
+      return !!meta && !meta.isFirstPage && meta.previousPage !== null;
+    },
+    page: load,
+    async next() {
+      if (!meta) return load(startPage);
+      return meta.nextPage !== null && !meta.isLastPage
+        ? load(meta.nextPage)
+        : null;
+    },
+    async prev() {
+      return meta && meta.previousPage !== null && !meta.isFirstPage
+        ? load(meta.previousPage)
+        : null;
+    },
+    async *[Symbol.asyncIterator]() {
+      let pageNumber: number | null = startPage;
+
+      while (pageNumber !== null) {
+        const response: PaginatedResponse<T> = await fetchPage<T>(
+          endpoint,
+          { ...options, page: pageNumber },
+          requestOptions
+        );
+        yield* response.data ?? [];
+        pageNumber = response.meta.isLastPage ? null : response.meta.nextPage;
+      }
+    },
+  };
+}
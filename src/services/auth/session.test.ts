@@ -0,0 +1,55 @@
+/**
+ * @file session.test.ts
+ * @description Unit tests for expired sessions and replaying queued requests.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleSessionExpired, onSessionEnd, resumeSession } from './session';
+import { store } from '../../store';
+
+vi.mock('../../router', () => ({ renderRoute: vi.fn() }));
+vi.mock('../../router/guards', () => ({
+  loginRedirectUrl: (path: string) => `/login?redirect=${path}`,
+}));
+
+function login(user: string) {
+  store.dispatch({ type: 'auth/login', user, accessToken: `${user}-token` });
+}
+
+describe('session', () => {
+  const onEnd = vi.fn();
+  onSessionEnd(onEnd);
+
+  beforeEach(() => {
+    login('ada');
+    onEnd.mockClear();
+  });
+
+  it('replays queued requests when the same user signs back in', async () => {
+    const replay = vi.fn().mockResolvedValue(undefined);
+
+    handleSessionExpired(replay);
+    login('ada');
+    await resumeSession();
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('drops queued requests when someone else signs in', async () => {
+    const replay = vi.fn().mockResolvedValue(undefined);
+
+    handleSessionExpired(replay);
+    login('grace');
+    await resumeSession();
+
+    expect(replay).not.toHaveBeenCalled();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the session on an explicit logout', () => {
+    store.dispatch({ type: 'auth/logout' });
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @file session.ts
+ * @description Session manager for the API client. Checks the access token
+ * before requests, handles expired sessions (401 responses or stale tokens)
+ * and replays queued requests once the same user has signed in again.
+ */
+
+import { getCurrentUser, isTokenExpired, logout } from '../../utils/auth';
+import {
+  getLocalItem,
+  removeLocalItem,
+  setLocalItem,
+} from '../../utils/storage';
+import { renderRoute } from '../../router';
+import { loginRedirectUrl } from '../../router/guards';
+import { selectCurrentUser, store } from '../../store';
+
+export const SESSION_EXPIRED_MESSAGE =
+  'Your session has expired. Please sign in again.';
+
+type ReplayableRequest = () => Promise<unknown>;
+
+let isExpiring = false;
+let returnPath: string | null = null;
+let sessionNotice: string | null = null;
+const pendingRequests: ReplayableRequest[] = [];
+const sessionEndListeners = new Set<() => void>();
+
+// Kept across reloads, as writes queued offline are
+const EXPIRED_USER_KEY = 'expiredSessionUser';
+
+/** The user whose session expired; queued requests are theirs */
+let expiredUser: string | null = getLocalItem(EXPIRED_USER_KEY);
+
+function setExpiredUser(user: string | null): void {
+  expiredUser = user;
+  if (user) {
+    setLocalItem(EXPIRED_USER_KEY, user);
+  } else {
+    removeLocalItem(EXPIRED_USER_KEY);
+  }
+}
+
+/**
+ * Calls `listener` when the signed-in user's data should be dropped: on an
+ * explicit logout, or when someone else signs in. An expired session doesn't
+ * count, so the same user can carry on after signing in again.
+ *
+ * @returns An unsubscribe function
+ */
+export function onSessionEnd(listener: () => void): () => void {
+  sessionEndListeners.add(listener);
+  return () => sessionEndListeners.delete(listener);
+}
+
+function endSession(): void {
+  pendingRequests.length = 0;
+  setExpiredUser(null);
+  sessionEndListeners.forEach((listener) => listener());
+}
+
+store.select(selectCurrentUser, (user, previousUser) => {
+  if (!user) {
+    // Logging out on expiry keeps the queue for the user's return
+    if (!isExpiring) endSession();
+    return;
+  }
+
+  const owner = previousUser || expiredUser;
+  if (owner && owner !== user) {
+    endSession();
+  } else {
+    setExpiredUser(null);
+  }
+});
+
+/**
+ * Checks whether the stored access token exists but can no longer be used.
+ */
+export function isSessionExpired(): boolean {
+  return !!getCurrentUser().accessToken && isTokenExpired();
+}
+
+/**
+ * Clears stale credentials and sends the user to the login route with a
+ * "session expired" notice. Requests passed in are replayed after re-login.
+ *
+ * @param replay Optional request to retry once the user has signed in again
+ */
+export function handleSessionExpired(replay?: ReplayableRequest): void {
+  if (replay) {
+    pendingRequests.push(replay);
+  }
+
+  // Several requests can fail at once; only redirect for the first one
+  if (isExpiring) return;
+  isExpiring = true;
+
+  returnPath = window.location.pathname + window.location.search;
+  sessionNotice = SESSION_EXPIRED_MESSAGE;
+  const { user } = getCurrentUser();
+  if (user) setExpiredUser(user);
+  logout();
+
+  const loginUrl = loginRedirectUrl(returnPath);
+  history.pushState({ path: loginUrl }, '', loginUrl);
+  renderRoute(loginUrl);
+}
+
+/**
+ * Returns the pending "session expired" notice once, then forgets it.
+ */
+export function consumeSessionNotice(): string | null {
+  const notice = sessionNotice;
+  sessionNotice = null;
+  return notice;
+}
+
+/**
+ * Resumes the session after a successful login: replays requests queued by
+ * this user in order and returns the path the user should be sent back to.
+ * Requests of another user were already dropped when this one signed in.
+ *
+ * @returns The route the user was on when the session expired, or `/feed`
+ */
+export async function resumeSession(): Promise<string> {
+  const destination = returnPath && returnPath !== '/' ? returnPath : '/feed';
+
+  isExpiring = false;
+  returnPath = null;
+  sessionNotice = null;
+
+  const requests = pendingRequests.splice(0);
+  for (const replay of requests) {
+    try {
+      await replay();
+    } catch (error) {
+      console.error('Failed to replay request after re-login:', error);
+    }
+  }
+
+  return destination;
+}
@@ -0,0 +1,118 @@
+/**
+ * @file entityCache.test.ts
+ * @description Unit tests for the stale-while-revalidate entity cache.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearEntityCaches, createEntityCache } from './entityCache';
+
+vi.mock('../api/client', () => ({ isAbortError: () => false }));
+
+const TTL = 1000;
+
+describe('createEntityCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fetches missing entries and serves fresh ones from the cache', async () => {
+    const cache = createEntityCache<string>({ ttl: TTL });
+    const fetcher = vi.fn().mockResolvedValue('first');
+
+    await expect(cache.read('a', fetcher)).resolves.toBe('first');
+    await expect(cache.read('a', fetcher)).resolves.toBe('first');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale entries while revalidating them once', async () => {
+    const cache = createEntityCache<string>({ ttl: TTL });
+    cache.set('a', 'old');
+    vi.advanceTimersByTime(TTL + 1);
+
+    const fetcher = vi.fn().mockResolvedValue('new');
+    const reads = [cache.read('a', fetcher), cache.read('a', fetcher)];
+    await expect(Promise.all(reads)).resolves.toEqual(['old', 'old']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(() => expect(cache.peek('a')).toBe('new'));
+    expect(cache.isFresh('a')).toBe(true);
+  });
+
+  it('waits for the fetcher once an entry has expired', async () => {
+    const cache = createEntityCache<string>({ ttl: TTL, maxAge: 2 * TTL });
+    cache.set('a', 'old');
+    vi.advanceTimersByTime(2 * TTL + 1);
+
+    expect(cache.peek('a')).toBeUndefined();
+    await expect(cache.read('a', () => Promise.resolve('new'))).resolves.toBe(
+      'new'
+    );
+  });
+
+  it('refetches invalidated entries in the background', async () => {
+    const cache = createEntityCache<string>({ ttl: TTL });
+    cache.set('a', 'old');
+    cache.invalidate();
+
+    const fetcher = vi.fn().mockResolvedValue('new');
+    await expect(cache.read('a', fetcher)).resolves.toBe('old');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies listeners of sets, updates and deletes', () => {
+    const cache = createEntityCache<{ count: number }>({ ttl: TTL });
+    const listener = vi.fn();
+    const unsubscribe = cache.subscribe(listener);
+
+    cache.update('a', (value) => ({ count: value.count + 1 }));
+    expect(listener).not.toHaveBeenCalled();
+
+    cache.set('a', { count: 1 });
+    cache.update('a', (value) => ({ count: value.count + 1 }));
+    cache.delete('a');
+    expect(listener.mock.calls).toEqual([
+      ['a', { count: 1 }],
+      ['a', { count: 2 }],
+      ['a', undefined],
+    ]);
+
+    unsubscribe();
+    cache.set('a', { count: 3 });
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('tells listeners about deletes of entries it does not hold', () => {
+    const cache = createEntityCache<string>({ ttl: TTL });
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    cache.delete('missing');
+
+    expect(listener).toHaveBeenCalledWith('missing', undefined);
+  });
+
+  it('lists the keys of entries that have not expired', () => {
+    const cache = createEntityCache<string>({ ttl: TTL, maxAge: TTL * 2 });
+    cache.set('old', 'value');
+    vi.advanceTimersByTime(TTL * 2 + 1);
+    cache.set('new', 'value');
+
+    expect(cache.keys()).toEqual(['new']);
+  });
+
+  it('empties every cache at once', () => {
+    const posts = createEntityCache<string>({ ttl: TTL });
+    const profiles = createEntityCache<string>({ ttl: TTL });
+    posts.set('1', 'post');
+    profiles.set('ola', 'profile');
+
+    clearEntityCaches();
+
+    expect(posts.peek('1')).toBeUndefined();
+    expect(profiles.peek('ola')).toBeUndefined();
+  });
+});
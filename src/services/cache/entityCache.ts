@@ -0,0 +1,167 @@
+/**
+ * @file entityCache.ts
+ * @description In-memory entity cache with stale-while-revalidate reads.
+ * Fresh entries are served as-is, stale ones are served immediately while a
+ * background request refreshes them, and expired ones are fetched again.
+ * Listeners hear about every change so views can update in place.
+ */
+
+import { isAbortError } from '../api/client';
+
+export interface EntityCacheOptions {
+  /** How long an entry counts as fresh, in milliseconds */
+  ttl: number;
+  /** How long a stale entry may still be served, in milliseconds */
+  maxAge?: number;
+}
+
+/** Receives the new value, or `undefined` when the entry was removed */
+export type EntityListener<T> = (key: string, value: T | undefined) => void;
+
+export interface EntityCache<T> {
+  /** Returns the cached value unless it has expired, fresh or not */
+  peek(key: string): T | undefined;
+  /** Keys of every entry that hasn't expired */
+  keys(): string[];
+  isFresh(key: string): boolean;
+  set(key: string, value: T): void;
+  /** Updates an entry in place; does nothing if it is not cached */
+  update(key: string, updater: (value: T) => T): void;
+  /** Removes an entry; listeners are told even if it wasn't cached */
+  delete(key: string): void;
+  /** Marks every entry stale so the next read revalidates it */
+  invalidate(): void;
+  clear(): void;
+  subscribe(listener: EntityListener<T>): () => void;
+  /**
+   * Reads an entry with stale-while-revalidate semantics.
+   *
+   * @param key The entity key, e.g. a post id or profile name
+   * @param fetcher Loads the entity when it is missing or stale
+   * @param options `force` skips the cache and always waits for the fetcher
+   */
+  read(
+    key: string,
+    fetcher: () => Promise<T>,
+    options?: { force?: boolean }
+  ): Promise<T>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+// Every cache, so they can all be emptied when the user changes
+const caches = new Set<EntityCache<unknown>>();
+
+/**
+ * Creates an entity cache.
+ *
+ * @example
+ * ```typescript
+ * const profiles = createEntityCache<Profile>({ ttl: 60_000 });
+ * const profile = await profiles.read('ola', () => fetchProfile('ola'));
+ * ```
+ */
+export function createEntityCache<T>({
+  ttl,
+  maxAge = ttl * 10,
+}: EntityCacheOptions): EntityCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+  const listeners = new Set<EntityListener<T>>();
+  const revalidating = new Set<string>();
+
+  const notify = (key: string, value: T | undefined) => {
+    listeners.forEach((listener) => listener(key, value));
+  };
+
+  const getEntry = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && Date.now() - entry.storedAt > maxAge) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const cache: EntityCache<T> = {
+    peek: (key) => getEntry(key)?.value,
+    keys: () => [...entries.keys()].filter((key) => getEntry(key)),
+    isFresh(key) {
+      const entry = getEntry(key);
+      return !!entry && Date.now() - entry.storedAt <= ttl;
+    },
+    set(key, value) {
+      entries.set(key, { value, storedAt: Date.now() });
+      notify(key, value);
+    },
+    update(key, updater) {
+      const entry = getEntry(key);
+      if (!entry) return;
+
+      const value = updater(entry.value);
+      entries.set(key, { value, storedAt: entry.storedAt });
+      notify(key, value);
+    },
+    delete(key) {
+      entries.delete(key);
+      notify(key, undefined);
+    },
+    invalidate() {
+      entries.forEach((entry) => {
+        entry.storedAt = Math.min(entry.storedAt, Date.now() - ttl - 1);
+      });
+    },
+    clear() {
+      entries.clear();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    async read(key, fetcher, { force = false } = {}) {
+      const entry = getEntry(key);
+
+      if (!entry || force) {
+        const value = await fetcher();
+        cache.set(key, value);
+        return value;
+      }
+
+      if (!cache.isFresh(key) && !revalidating.has(key)) {
+        revalidating.add(key);
+        fetcher()
+          .then((value) => cache.set(key, value))
+          .catch((error) => {
+            if (!isAbortError(error)) {
+              console.warn(`Failed to revalidate cached "${key}":`, error);
+            }
+          })
+          .finally(() => revalidating.delete(key));
+      }
+
+      return entry.value;
+    },
+  };
+
+  caches.add(cache as EntityCache<unknown>);
+  return cache;
+}
+
+/**
+ * Empties every entity cache, e.g. after signing out.
+ */
+export function clearEntityCaches(): void {
+  caches.forEach((cache) => cache.clear());
+}
+
+/**
+ * Marks every cached entry stale, e.g. after reconnecting, so the next read
+ * of each one is revalidated.
+ */
+export function invalidateEntityCaches(): void {
+  caches.forEach((cache) => cache.invalidate());
+}
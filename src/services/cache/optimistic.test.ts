@@ -0,0 +1,82 @@
+/**
+ * @file optimistic.test.ts
+ * @description Unit tests for optimistic mutations on the entity cache.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createEntityCache } from './entityCache';
+import { mutateOptimistically } from './optimistic';
+
+vi.mock('../api/client', () => ({ isAbortError: () => false }));
+
+interface Post {
+  title: string;
+  likes: number;
+}
+
+function createPostCache() {
+  const cache = createEntityCache<Post>({ ttl: 60_000 });
+  cache.set('1', { title: 'Hello', likes: 0 });
+  return cache;
+}
+
+describe('mutateOptimistically', () => {
+  it('applies the change before the request finishes', async () => {
+    const cache = createPostCache();
+    let resolve: (value: string) => void = () => {};
+
+    const mutation = mutateOptimistically(cache, '1', {
+      apply: (post) => ({ ...post, likes: post.likes + 1 }),
+      request: () => new Promise<string>((done) => (resolve = done)),
+    });
+
+    expect(cache.peek('1')?.likes).toBe(1);
+    resolve('ok');
+    await expect(mutation).resolves.toBe('ok');
+    expect(cache.peek('1')?.likes).toBe(1);
+  });
+
+  it('reconciles the optimistic value with the response', async () => {
+    const cache = createPostCache();
+
+    await mutateOptimistically(cache, '1', {
+      apply: (post) => ({ ...post, title: 'Draft' }),
+      request: () => Promise.resolve({ title: 'Saved' }),
+      reconcile: (post, saved) => ({ ...post, ...saved }),
+    });
+
+    expect(cache.peek('1')).toEqual({ title: 'Saved', likes: 0 });
+  });
+
+  it('rolls back and rethrows when the request fails', async () => {
+    const cache = createPostCache();
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    await expect(
+      mutateOptimistically(cache, '1', {
+        apply: () => undefined,
+        request: () => Promise.reject(new Error('offline')),
+      })
+    ).rejects.toThrow('offline');
+
+    expect(cache.peek('1')).toEqual({ title: 'Hello', likes: 0 });
+    expect(listener.mock.calls).toEqual([
+      ['1', undefined],
+      ['1', { title: 'Hello', likes: 0 }],
+    ]);
+  });
+
+  it('only runs the request when the entry is not cached', async () => {
+    const cache = createPostCache();
+    const apply = vi.fn();
+
+    await mutateOptimistically(cache, '2', {
+      apply,
+      request: () => Promise.resolve(),
+    });
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(cache.peek('2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file optimistic.ts
+ * @description Optimistic mutations on top of the entity cache. The change is
+ * written to the cache before the request is sent, so every subscribed view
+ * updates straight away, then it is reconciled with the server's response or
+ * rolled back if the request fails.
+ */
+
+import type { EntityCache } from './entityCache';
+import { QueuedError } from '../../types';
+
+export interface OptimisticMutation<T, R> {
+  /** Builds the optimistic value; return `undefined` to remove the entry */
+  apply: (current: T) => T | undefined;
+  /** Sends the change to the server */
+  request: () => Promise<R>;
+  /**
+   * Builds the confirmed value from the server's response. Without it the
+   * optimistic value is kept.
+   */
+  reconcile?: (current: T, result: R) => T;
+}
+
+/**
+ * Applies a mutation to a cached entity before its request has finished.
+ * Entries that are not cached are left alone and only the request runs.
+ * Writes queued while offline keep their optimistic value until replayed.
+ *
+ * @returns The request's result
+ * @throws The request's error, after the previous value has been restored
+ *
+ * @example
+ * ```typescript
+ * await mutateOptimistically(postsCache, '42', {
+ *   apply: (post) => ({ ...post, title }),
+ *   request: () => put('/social/posts/42', { title }),
+ * });
+ * ```
+ */
+export async function mutateOptimistically<T, R>(
+  cache: EntityCache<T>,
+  key: string,
+  { apply, request, reconcile }: OptimisticMutation<T, R>
+): Promise<R> {
+  const previous = cache.peek(key);
+
+  if (previous !== undefined) {
+    const optimistic = apply(previous);
+    if (optimistic === undefined) {
+      cache.delete(key);
+    } else {
+      cache.update(key, () => optimistic);
+    }
+  }
+
+  try {
+    const result = await request();
+    if (reconcile) {
+      cache.update(key, (current) => reconcile(current, result));
+    }
+    return result;
+  } catch (error) {
+    if (previous !== undefined && !(error instanceof QueuedError)) {
+      cache.set(key, previous);
+    }
+    throw error;
+  }
+}
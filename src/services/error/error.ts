@@ -4,6 +4,15 @@
  * @author [Your Name]
  */
 
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  type ApiResponse,
+} from '../../types';
+
 export class ApiError extends Error {
   public statusCode: number;
 
@@ -13,3 +22,40 @@ export class ApiError extends Error {
     this.statusCode = statusCode;
   }
 }
+
+/**
+ * Maps a failed API response to the matching typed error.
+ *
+ * @param statusCode HTTP status of the response
+ * @param body Parsed Noroff error body, if the response had one
+ * @param retryAfter Milliseconds from the `Retry-After` header, if present
+ * @returns A typed error; `ApiError` for statuses without a dedicated class
+ */
+export function createApiError(
+  statusCode: number,
+  body?: ApiResponse<unknown> | null,
+  retryAfter: number | null = null
+): Error {
+  const messages = (body?.errors ?? [])
+    .map((error) => error.message)
+    .filter(Boolean);
+  const message = messages[0] || `HTTP Error: ${statusCode}`;
+
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return messages.length > 0
+        ? new ValidationError(message, messages, statusCode)
+        : new ApiError(message, statusCode);
+    case 401:
+      return new AuthError(message);
+    case 403:
+      return new ForbiddenError(message);
+    case 404:
+      return new NotFoundError(message);
+    case 429:
+      return new RateLimitError(message, retryAfter);
+    default:
+      return new ApiError(message, statusCode);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @file interactions.test.ts
+ * @description Unit tests for toggling reactions.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { toggleReaction } from './interactions';
+import { sendOrQueue } from '../offline/outbox';
+import { store } from '../../store';
+
+vi.mock('../api/client', () => ({
+  get: vi.fn(),
+  del: vi.fn(),
+  isAbortError: () => false,
+}));
+vi.mock('../offline/outbox', () => ({ sendOrQueue: vi.fn() }));
+
+const mockedSend = vi.mocked(sendOrQueue);
+
+function reactionResponse(reactors: string[]) {
+  return {
+    data: {
+      postId: 1,
+      symbol: '👍',
+      reactions: reactors.length
+        ? [{ symbol: '👍', count: reactors.length, reactors }]
+        : [],
+    },
+  };
+}
+
+describe('toggleReaction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.dispatch({ type: 'auth/login', user: 'ada', accessToken: 'token' });
+  });
+
+  it('turns the reaction on and off with the same PUT', async () => {
+    mockedSend.mockResolvedValueOnce(reactionResponse(['ada']));
+    mockedSend.mockResolvedValueOnce(reactionResponse([]));
+
+    await expect(toggleReaction('1', '👍')).resolves.toBe(true);
+    await expect(toggleReaction('1', '👍')).resolves.toBe(false);
+    expect(mockedSend.mock.calls.map(([request]) => request.method)).toEqual([
+      'PUT',
+      'PUT',
+    ]);
+  });
+
+  it('reads the result from the reactors, not the count', async () => {
+    mockedSend.mockResolvedValue(reactionResponse(['grace']));
+
+    await expect(toggleReaction('1', '👍')).resolves.toBe(false);
+  });
+});
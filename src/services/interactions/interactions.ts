@@ -3,7 +3,17 @@
  * @file interactions.ts - Fixed version
  */
 
-import { get, post, put, del } from '../api/client';
+import { get, del } from '../api/client';
+import { createEntityCache, type EntityListener } from '../cache/entityCache';
+import { mutateOptimistically } from '../cache/optimistic';
+import { sendOrQueue } from '../offline/outbox';
+import { getCurrentUser } from '../../utils/auth';
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  type PaginatedResponse,
+} from '../../types';
 
 export interface Comment {
   id: string;
@@ -32,16 +42,18 @@ export interface Reaction {
   }>;
 }
 
-export interface CommentsResponse {
-  data: Comment[];
-  meta: {
-    isFirstPage: boolean;
-    isLastPage: boolean;
-    currentPage: number;
-    previousPage: number | null;
-    nextPage: number | null;
-    pageCount: number;
-    totalCount: number;
+export type CommentsResponse = PaginatedResponse<Comment>;
+
+/** The post's reactions after a reaction was turned on or off */
+export interface ReactionResponse {
+  data: {
+    postId: number;
+    symbol: string;
+    reactions: {
+      symbol: string;
+      count: number;
+      reactors: string[];
+    }[];
   };
 }
 
@@ -49,6 +61,52 @@ export interface CreateCommentResponse {
   data: Comment;
 }
 
+// Comments per post id, filled from cached posts and kept in sync on writes
+const commentsCache = createEntityCache<Comment[]>({ ttl: 60 * 1000 });
+
+/**
+ * Subscribe to changes of a post's cached comments
+ */
+export function onCommentsChange(listener: EntityListener<Comment[]>) {
+  return commentsCache.subscribe(listener);
+}
+
+const PENDING_ID_PREFIX = 'pending-';
+
+/**
+ * Whether a comment is shown optimistically and not yet saved
+ */
+export function isPendingComment(comment: Comment): boolean {
+  return String(comment.id).startsWith(PENDING_ID_PREFIX);
+}
+
+/**
+ * Store comments that arrived with a post
+ */
+export function cacheComments(postId: string | number, comments: Comment[]) {
+  commentsCache.set(String(postId), comments);
+}
+
+/**
+ * The comments of a post, if they are cached
+ */
+export function getCachedComments(postId: string | number) {
+  return commentsCache.peek(String(postId));
+}
+
+/**
+ * Get the comments of a post, from the cache when possible
+ * @param postId The ID of the post
+ * @returns Promise with the post's comments
+ */
+export async function getPostComments(postId: string): Promise<Comment[]> {
+  return commentsCache.read(postId, async () => {
+    const response = await get<{ data: { comments?: Comment[] } }>(
+      `/social/posts/${postId}?_comments=true`
+    );
+    return response?.data?.comments || [];
+  });
+}
 
 /**
  * Create a new comment on a post
@@ -62,44 +120,65 @@ export async function createComment(
   body: string,
   replyToId?: string
 ): Promise<CreateCommentResponse> {
-  const commentData: any = { body };
+  const commentData: { body: string; replyToId?: number } = { body };
 
   if (replyToId) {
     commentData.replyToId = parseInt(replyToId);
   }
 
-  try {
-    console.log(`Creating comment on post ${postId}:`, commentData);
+  // Shown in the post's cached comments until the server answers
+  const now = new Date().toISOString();
+  const currentUser = getCurrentUser().user || '';
+  const pending: Comment = {
+    id: `${PENDING_ID_PREFIX}${Date.now()}`,
+    body,
+    replyToId: replyToId ?? null,
+    postId,
+    owner: currentUser,
+    created: now,
+    updated: now,
+    author: { name: currentUser, email: '', avatar: null },
+  };
 
-    const response = await post(`/social/posts/${postId}/comment`, commentData);
+  try {
+    const comment = await mutateOptimistically(commentsCache, postId, {
+      apply: (comments) => [...comments, pending],
+      request: async () => {
+        // Queued while offline, in which case this throws a QueuedError
+        const response = await sendOrQueue({
+          method: 'POST',
+          endpoint: `/social/posts/${postId}/comment`,
+          body: commentData,
+          description: replyToId
+            ? `Reply on post ${postId}`
+            : `Comment on post ${postId}`,
+        });
 
-    console.log('Create comment response:', response);
+        // Handle the response according to the API docs
+        const created: Comment | undefined = response?.data
+          ? response.data
+          : response?.id
+            ? response
+            : undefined;
+        if (!created) {
+          throw new Error('Invalid response format from comment creation');
+        }
+        return created;
+      },
+      reconcile: (comments, created) =>
+        comments.map((item) => (item.id === pending.id ? created : item)),
+    });
 
-    // Handle the response according to the API docs
-    if (response?.data) {
-      return { data: response.data };
-    } else if (response?.id) {
-      return { data: response };
-    } else {
-      throw new Error('Invalid response format from comment creation');
-    }
-  } catch (error: any) {
+    return { data: comment };
+  } catch (error) {
     console.error('Error creating comment:', error);
-    throw new Error(
-      error?.message || 'Failed to create comment. Please try again.'
-    );
+    if (error instanceof NotFoundError) {
+      error.message = 'The post you are trying to comment on was not found.';
+    }
+    throw error;
   }
 }
 
-/**
- * Reply to an existing comment
- * @param postId The ID of the post
- * @param parentCommentId The ID of the comment to reply to
- * @param body The reply text
- * @returns Promise with created reply
- */
-
-
 /**
  * Delete a comment (only works for your own comments)
  * @param postId The ID of the post
@@ -111,82 +190,50 @@ export async function deleteComment(
   commentId: string
 ): Promise<void> {
   try {
-    console.log(`Deleting comment ${commentId} from post ${postId}`);
-    await del(`/social/posts/${postId}/comment/${commentId}`);
-    console.log('Comment deleted successfully');
-  } catch (error: any) {
+    await mutateOptimistically(commentsCache, postId, {
+      apply: (comments) =>
+        comments.filter((comment) => String(comment.id) !== commentId),
+      request: () => del(`/social/posts/${postId}/comment/${commentId}`),
+    });
+  } catch (error) {
     console.error('Error deleting comment:', error);
 
-    if (error?.message?.toLowerCase().includes('unauthorized')) {
-      throw new Error('You can only delete your own comments.');
-    } else if (error?.message?.toLowerCase().includes('not found')) {
-      throw new Error('The comment you are trying to delete was not found.');
-    } else {
-      throw new Error(
-        error?.message || 'Failed to delete comment. Please try again.'
-      );
+    if (error instanceof ForbiddenError) {
+      error.message = 'You can only delete your own comments.';
+    } else if (error instanceof NotFoundError) {
+      error.message = 'The comment you are trying to delete was not found.';
     }
+    throw error;
   }
 }
 
 /**
- * React to a post with an emoji
+ * React to a post with an emoji. Reacting again with the same emoji removes
+ * the reaction; the API has one route for both.
  * @param postId The ID of the post
  * @param symbol The emoji symbol to react with
- * @returns Promise that resolves when reaction is added
+ * @returns Promise with the post's reactions afterwards
  */
 export async function reactToPost(
   postId: string,
   symbol: string
-): Promise<void> {
+): Promise<ReactionResponse | undefined> {
   try {
-    console.log(`Adding reaction ${symbol} to post ${postId}`);
-    await put(
-      `/social/posts/${postId}/react/${encodeURIComponent(symbol)}`,
-      {}
-    );
-    console.log('Reaction added successfully');
-  } catch (error: any) {
+    const response = await sendOrQueue<ReactionResponse | undefined>({
+      method: 'PUT',
+      endpoint: `/social/posts/${postId}/react/${encodeURIComponent(symbol)}`,
+      description: `${symbol} reaction on post ${postId}`,
+    });
+    return response;
+  } catch (error) {
     console.error('Error reacting to post:', error);
 
-    if (error?.message?.toLowerCase().includes('unauthorized')) {
-      throw new Error('You must be logged in to react to posts.');
-    } else if (error?.message?.toLowerCase().includes('not found')) {
-      throw new Error('The post you are trying to react to was not found.');
-    } else {
-      throw new Error(
-        error?.message || 'Failed to react to post. Please try again.'
-      );
-    }
-  }
-}
-
-/**
- * Remove reaction from a post
- * @param postId The ID of the post
- * @param symbol The emoji symbol to remove
- * @returns Promise that resolves when reaction is removed
- */
-export async function removeReaction(
-  postId: string,
-  symbol: string
-): Promise<void> {
-  try {
-    console.log(`Removing reaction ${symbol} from post ${postId}`);
-    await del(`/social/posts/${postId}/react/${encodeURIComponent(symbol)}`);
-    console.log('Reaction removed successfully');
-  } catch (error: any) {
-    console.error('Error removing reaction:', error);
-
-    if (error?.message?.toLowerCase().includes('unauthorized')) {
-      throw new Error('You must be logged in to remove reactions.');
-    } else if (error?.message?.toLowerCase().includes('not found')) {
-      throw new Error('The reaction you are trying to remove was not found.');
-    } else {
-      throw new Error(
-        error?.message || 'Failed to remove reaction. Please try again.'
-      );
+    if (error instanceof AuthError) {
+      error.message = 'You must be logged in to react to posts.';
+    } else if (error instanceof NotFoundError) {
+      error.message = 'The post you are trying to react to was not found.';
     }
+    throw error;
   }
 }
 
@@ -194,36 +241,22 @@ export async function removeReaction(
  * Toggle reaction on a post (add if not exists, remove if exists)
  * @param postId The ID of the post
  * @param symbol The emoji symbol to toggle
- * @returns Promise that resolves to true if reaction was added, false if removed
+ * @returns Promise that resolves to true if reaction was added, false if
+ * removed, read from the `reactions[].reactors` of the response
  */
 export async function toggleReaction(
   postId: string,
   symbol: string
 ): Promise<boolean> {
-  try {
-    // Try to add the reaction first
-    await reactToPost(postId, symbol);
-    return true; // Successfully added
-  } catch (error: any) {
-    // If the reaction already exists, try to remove it
-    if (
-      error.message?.includes('already') ||
-      error.message?.includes('exist') ||
-      error.statusCode === 400 ||
-      error.statusCode === 409
-    ) {
-      try {
-        await removeReaction(postId, symbol);
-        return false; // Successfully removed
-      } catch (removeError: any) {
-        console.error('Error removing existing reaction:', removeError);
-        throw removeError;
-      }
-    }
+  const response = await reactToPost(postId, symbol);
+  const currentUser = getCurrentUser().user;
 
-    // If it's a different error, re-throw it
-    throw error;
-  }
+  return (response?.data?.reactions || []).some(
+    (reaction) =>
+      reaction.symbol === symbol &&
+      !!currentUser &&
+      (reaction.reactors || []).includes(currentUser)
+  );
 }
 
 /**
@@ -0,0 +1,91 @@
+/**
+ * @file db.ts
+ * @description Small promise wrapper around the IndexedDB database that keeps
+ * data for offline use: snapshots of loaded feeds and profiles, and the
+ * outbox of writes made while offline.
+ */
+
+const DB_NAME = 'social-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'snapshots' | 'outbox';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('snapshots');
+      // Auto-incremented keys keep queued writes in the order they were made
+      request.result.createObjectStore('outbox', {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+
+  return database;
+}
+
+async function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const request = action(
+    db.transaction(storeName, mode).objectStore(storeName)
+  );
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function readRecord<T>(
+  storeName: OfflineStoreName,
+  key: IDBValidKey
+): Promise<T | undefined> {
+  return run(storeName, 'readonly', (store) => store.get(key));
+}
+
+/**
+ * Reads every record of a store, ordered by key.
+ */
+export function readAllRecords<T>(storeName: OfflineStoreName): Promise<T[]> {
+  return run(storeName, 'readonly', (store) => store.getAll());
+}
+
+/**
+ * Writes a record; `key` is left out for stores with their own key path.
+ */
+export function writeRecord(
+  storeName: OfflineStoreName,
+  value: unknown,
+  key?: IDBValidKey
+): Promise<IDBValidKey> {
+  return run(storeName, 'readwrite', (store) => store.put(value, key));
+}
+
+export function deleteRecord(
+  storeName: OfflineStoreName,
+  key: IDBValidKey
+): Promise<undefined> {
+  return run(storeName, 'readwrite', (store) => store.delete(key));
+}
+
+export function countRecords(storeName: OfflineStoreName): Promise<number> {
+  return run(storeName, 'readonly', (store) => store.count());
+}
+
+export function clearRecords(storeName: OfflineStoreName): Promise<undefined> {
+  return run(storeName, 'readwrite', (store) => store.clear());
+}
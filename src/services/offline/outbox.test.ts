@@ -0,0 +1,129 @@
+/**
+ * @file outbox.test.ts
+ * @description Unit tests for queueing and replaying offline writes.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { post, put } from '../api/client';
+import { deleteRecord, readAllRecords, writeRecord } from './db';
+import { replayOutbox, sendOrQueue } from './outbox';
+import { store } from '../../store';
+import {
+  AuthError,
+  NotFoundError,
+  OfflineError,
+  QueuedError,
+} from '../../types';
+
+vi.mock('../api/client', () => ({
+  post: vi.fn(),
+  put: vi.fn(),
+  del: vi.fn(),
+  isAbortError: () => false,
+}));
+
+vi.mock('./db', () => ({
+  clearRecords: vi.fn(),
+  countRecords: vi.fn().mockResolvedValue(0),
+  deleteRecord: vi.fn(),
+  readAllRecords: vi.fn(),
+  writeRecord: vi.fn(),
+}));
+
+const mockedPost = vi.mocked(post);
+const mockedPut = vi.mocked(put);
+
+const comment = {
+  id: 1,
+  method: 'POST' as const,
+  endpoint: '/social/posts/1/comment',
+  body: { body: 'Hi' },
+  description: 'Comment on post 1',
+  queuedAt: '2024-01-01T00:00:00.000Z',
+};
+const reaction = {
+  id: 2,
+  method: 'PUT' as const,
+  endpoint: '/social/posts/2/react/%F0%9F%91%8D',
+  description: '👍 reaction on post 2',
+  queuedAt: '2024-01-01T00:00:01.000Z',
+};
+
+describe('sendOrQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the write when online', async () => {
+    mockedPost.mockResolvedValue({ data: { id: 5 } });
+
+    await expect(sendOrQueue(comment)).resolves.toEqual({ data: { id: 5 } });
+    expect(writeRecord).not.toHaveBeenCalled();
+  });
+
+  it('queues the write when the request finds no connection', async () => {
+    mockedPost.mockRejectedValue(new OfflineError());
+
+    await expect(sendOrQueue(comment)).rejects.toBeInstanceOf(QueuedError);
+    expect(writeRecord).toHaveBeenCalledWith(
+      'outbox',
+      expect.objectContaining({ endpoint: comment.endpoint })
+    );
+  });
+});
+
+describe('replayOutbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.dispatch({ type: 'outbox/conflictsDismissed' });
+  });
+
+  it('sends queued writes in order and removes them', async () => {
+    const calls: string[] = [];
+    vi.mocked(readAllRecords).mockResolvedValue([comment, reaction]);
+    mockedPost.mockImplementation(async (endpoint) => calls.push(endpoint));
+    mockedPut.mockImplementation(async (endpoint) => calls.push(endpoint));
+
+    await replayOutbox();
+
+    expect(calls).toEqual([comment.endpoint, reaction.endpoint]);
+    expect(deleteRecord).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports refused writes as conflicts and carries on', async () => {
+    vi.mocked(readAllRecords).mockResolvedValue([comment, reaction]);
+    mockedPost.mockRejectedValue(new NotFoundError('Post not found'));
+    mockedPut.mockResolvedValue(null);
+
+    await replayOutbox();
+
+    expect(store.getState().network.conflicts).toEqual([
+      { description: 'Comment on post 1', message: 'Post not found' },
+    ]);
+    expect(deleteRecord).toHaveBeenCalledWith('outbox', 1);
+    expect(deleteRecord).toHaveBeenCalledWith('outbox', 2);
+  });
+
+  it('keeps the rest of the queue when the connection drops again', async () => {
+    vi.mocked(readAllRecords).mockResolvedValue([comment, reaction]);
+    mockedPost.mockRejectedValue(new OfflineError());
+
+    await replayOutbox();
+
+    expect(put).not.toHaveBeenCalled();
+    expect(deleteRecord).not.toHaveBeenCalled();
+  });
+
+  it('keeps writes for the next flush, not the session, on a 401', async () => {
+    vi.mocked(readAllRecords).mockResolvedValue([comment, reaction]);
+    mockedPost.mockRejectedValue(new AuthError('Session expired'));
+
+    await replayOutbox();
+
+    expect(mockedPost).toHaveBeenCalledWith(comment.endpoint, comment.body, {
+      replayAfterLogin: false,
+    });
+    expect(put).not.toHaveBeenCalled();
+    expect(deleteRecord).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @file outbox.ts
+ * @description Queue for writes made while offline. Queued writes are kept
+ * in IndexedDB, replayed in order once the connection is back, and writes the
+ * server refuses are reported as conflicts in the store.
+ */
+
+import { del, post, put, type RequestOptions } from '../api/client';
+import { invalidateEntityCaches } from '../cache/entityCache';
+import {
+  clearRecords,
+  countRecords,
+  deleteRecord,
+  readAllRecords,
+  writeRecord,
+} from './db';
+import { store } from '../../store';
+import {
+  AuthError,
+  NetworkError,
+  OfflineError,
+  QueuedError,
+  type OutboxConflict,
+} from '../../types';
+
+export interface OutboxRequest {
+  method: 'POST' | 'PUT' | 'DELETE';
+  endpoint: string;
+  body?: object;
+  /** Describes the write when reporting a conflict, e.g. `Comment on post 12` */
+  description: string;
+}
+
+interface OutboxEntry extends OutboxRequest {
+  id?: number;
+  queuedAt: string;
+}
+
+let replaying: Promise<void> | null = null;
+
+function send(
+  request: OutboxRequest,
+  options: RequestOptions = {}
+): Promise<any> {
+  const { method, endpoint, body = {} } = request;
+  if (method === 'POST') return post(endpoint, body, options);
+  if (method === 'PUT') return put(endpoint, body, options);
+  return del(endpoint, options);
+}
+
+/**
+ * Sends a write, or queues it when the browser is offline.
+ *
+ * @returns The server's response
+ * @throws `QueuedError` when the write was queued instead of sent
+ */
+export async function sendOrQueue<T = any>(request: OutboxRequest): Promise<T> {
+  if (navigator.onLine !== false) {
+    try {
+      return await send(request);
+    } catch (error) {
+      if (!(error instanceof OfflineError)) throw error;
+    }
+  }
+
+  await writeRecord('outbox', {
+    ...request,
+    queuedAt: new Date().toISOString(),
+  } satisfies OutboxEntry);
+  await refreshPendingWrites();
+  throw new QueuedError();
+}
+
+/**
+ * Sends queued writes in the order they were made. Stops at the first write
+ * that fails because of the network; writes the server refuses are dropped
+ * and reported as conflicts.
+ */
+export function replayOutbox(): Promise<void> {
+  replaying ??= flushOutbox().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+async function flushOutbox(): Promise<void> {
+  const entries = await readAllRecords<OutboxEntry>('outbox');
+  const conflicts: OutboxConflict[] = [];
+  let sent = 0;
+
+  for (const entry of entries) {
+    try {
+      // The entry stays queued on a 401, so the session mustn't replay it too
+      await send(entry, { replayAfterLogin: false });
+      sent++;
+    } catch (error) {
+      // Still offline or signed out: keep this and later writes for next time
+      if (error instanceof NetworkError || error instanceof AuthError) break;
+
+      conflicts.push({
+        description: entry.description,
+        message:
+          error instanceof Error ? error.message : 'The server refused it.',
+      });
+    }
+
+    if (entry.id !== undefined) await deleteRecord('outbox', entry.id);
+  }
+
+  await refreshPendingWrites();
+
+  if (conflicts.length > 0) {
+    store.dispatch({ type: 'outbox/conflicts', conflicts });
+  }
+  // Cached views still show the optimistic versions of what was just sent
+  if (sent > 0 || conflicts.length > 0) invalidateEntityCaches();
+}
+
+/**
+ * Publishes the number of queued writes to the store.
+ */
+export async function refreshPendingWrites(): Promise<void> {
+  const pendingWrites = await countRecords('outbox').catch(() => 0);
+  store.dispatch({ type: 'outbox/changed', pendingWrites });
+}
+
+/**
+ * Drops every queued write, e.g. when the user signs out.
+ */
+export async function clearOutbox(): Promise<void> {
+  await clearRecords('outbox');
+  await refreshPendingWrites();
+}
@@ -0,0 +1,50 @@
+/**
+ * @file snapshots.ts
+ * @description Keeps the last response of a read in IndexedDB so it can be
+ * shown read-only when the network is unavailable.
+ */
+
+import { clearRecords, readRecord, writeRecord } from './db';
+import { NetworkError } from '../../types';
+
+interface Snapshot<T> {
+  value: T;
+  savedAt: string;
+}
+
+/**
+ * Loads data from the network and saves it, or falls back to the saved copy
+ * when the request fails because the network is down.
+ *
+ * @param key Identifies the data, e.g. a feed page or profile name
+ * @param load Loads the data from the network
+ * @throws The network error when there is no saved copy, and any other error
+ */
+export async function withOfflineFallback<T>(
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    const value = await load();
+    const snapshot: Snapshot<T> = { value, savedAt: new Date().toISOString() };
+    writeRecord('snapshots', snapshot, key).catch((error) => {
+      console.warn(`Failed to save "${key}" for offline use:`, error);
+    });
+    return value;
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+
+    const snapshot = await readRecord<Snapshot<T>>('snapshots', key).catch(
+      () => undefined
+    );
+    if (!snapshot) throw error;
+    return snapshot.value;
+  }
+}
+
+/**
+ * Removes every saved snapshot, e.g. when the user signs out.
+ */
+export function clearSnapshots(): Promise<undefined> {
+  return clearRecords('snapshots');
+}
@@ -0,0 +1,40 @@
+/**
+ * @file posts.test.ts
+ * @description Unit tests for editing and deleting posts through the cache.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { del, put } from '../api/client';
+import { deletePost, getCachedPost, onPostChange, updatePost } from './posts';
+
+vi.mock('../api/client', () => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  del: vi.fn(),
+  isAbortError: () => false,
+}));
+
+describe('posts that are not cached', () => {
+  it('stores a saved edit and tells views about it', async () => {
+    const saved = { id: 7, title: 'Saved', body: 'Body', tags: [] };
+    vi.mocked(put).mockResolvedValue({ data: saved });
+    const listener = vi.fn();
+    onPostChange(listener);
+
+    await expect(updatePost(7, { title: 'Saved' })).resolves.toEqual(saved);
+
+    expect(getCachedPost(7)).toEqual(saved);
+    expect(listener).toHaveBeenCalledWith('7', saved);
+  });
+
+  it('tells views about a delete', async () => {
+    vi.mocked(del).mockResolvedValue(undefined);
+    const listener = vi.fn();
+    onPostChange(listener);
+
+    await deletePost(8);
+
+    expect(listener).toHaveBeenCalledWith('8', undefined);
+  });
+});
@@ -4,6 +4,25 @@
  */
 
 import { get, post, put, del } from "../api/client";
+import { createPaginatedList, type PaginatedList } from "../api/pagination";
+import { createEntityCache, type EntityListener } from "../cache/entityCache";
+import { mutateOptimistically } from "../cache/optimistic";
+import { sendOrQueue } from "../offline/outbox";
+import { withOfflineFallback } from "../offline/snapshots";
+import { onProfileChange } from "../profiles/profiles";
+import {
+  cacheComments,
+  onCommentsChange,
+  toggleReaction,
+  type Comment,
+} from "../interactions/interactions";
+import { getCurrentUser } from "../../utils/auth";
+import { getLocalItem, setLocalItem } from "../../utils/storage";
+import type {
+  ListQueryOptions,
+  PaginatedResponse,
+  PaginationMeta,
+} from "../../types";
 
 // Define the Post interface according to Noroff API v2 structure
 export interface NoroffPost {
@@ -33,51 +52,261 @@ export interface NoroffPost {
   reactions?: Array<{
     symbol: string;
     count: number;
+    reactors?: string[];
   }>;
+  comments?: Comment[];
 }
 
-export interface PostsApiResponse {
-  data: NoroffPost[];
-  meta: {
-    isFirstPage: boolean;
-    isLastPage: boolean;
-    currentPage: number;
-    previousPage: number | null;
-    nextPage: number | null;
-    pageCount: number;
-    totalCount: number;
-  };
-}
+export type PostsApiResponse = PaginatedResponse<NoroffPost>;
 
 const BASE_URL = "/social/posts";
 
+// Related data to include with every post list
+const POST_INCLUDES = {
+  _author: true,
+  _reactions: true,
+  _comments: true,
+};
+
+/**
+ * Merges the default post includes into list options.
+ */
+function withPostIncludes(options: ListQueryOptions): ListQueryOptions {
+  return { ...options, filters: { ...POST_INCLUDES, ...options.filters } };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   CACHE                                    */
+/* -------------------------------------------------------------------------- */
+
+const POST_TTL = 60 * 1000;
+
+// Posts by id; lists only keep ids so an edited post shows up everywhere
+const postsCache = createEntityCache<NoroffPost>({ ttl: POST_TTL });
+const postListsCache = createEntityCache<{
+  ids: number[];
+  meta: PaginationMeta;
+}>({ ttl: POST_TTL });
+
+/**
+ * Subscribes to cached post changes; the value is `undefined` once deleted
+ */
+export function onPostChange(listener: EntityListener<NoroffPost>) {
+  return postsCache.subscribe(listener);
+}
+
+/**
+ * Returns a cached post without fetching it
+ */
+export function getCachedPost(id: number): NoroffPost | undefined {
+  return postsCache.peek(String(id));
+}
+
+// Comment writes change the post's comments and comment count as well
+onCommentsChange((postId, comments) => {
+  if (!comments || postsCache.peek(postId)?.comments === comments) return;
+
+  postsCache.update(postId, (post) => ({
+    ...post,
+    comments,
+    _count: { ...post._count, comments: comments.length },
+  }));
+});
+
+// Profile edits show on the author of every cached post
+onProfileChange((name, profile) => {
+  if (!profile) return;
+
+  postsCache.keys().forEach((key) => {
+    const author = postsCache.peek(key)?.author;
+    if (
+      author?.name !== name ||
+      (author.bio === profile.bio &&
+        author.avatar?.url === profile.avatar?.url &&
+        author.avatar?.alt === profile.avatar?.alt)
+    ) {
+      return;
+    }
+
+    postsCache.update(key, (post) => ({
+      ...post,
+      author: { ...post.author, bio: profile.bio, avatar: profile.avatar },
+    }));
+  });
+});
+
+const RECENT_TAGS_KEY = "recentTags";
+const MAX_RECENT_TAGS = 50;
+
+/**
+ * Tags of recently loaded posts, most recent first
+ */
+export function getRecentTags(): string[] {
+  const tags = getLocalItem(RECENT_TAGS_KEY);
+  return Array.isArray(tags) ? tags : [];
+}
+
+function rememberTags(tags: string[]): void {
+  const seen = tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  if (seen.length === 0) return;
+
+  const recent = [...new Set([...seen, ...getRecentTags()])];
+  setLocalItem(RECENT_TAGS_KEY, recent.slice(0, MAX_RECENT_TAGS));
+}
+
+function cachePost(post: NoroffPost): void {
+  postsCache.set(String(post.id), post);
+  if (post.tags?.length) rememberTags(post.tags);
+  if (post.comments) cacheComments(post.id, post.comments);
+}
+
+/**
+ * Reads a page of posts through the list cache, storing each post by id.
+ * The last loaded copy of each page is kept for offline viewing.
+ */
+async function readPostList(
+  key: string,
+  load: () => Promise<PostsApiResponse>
+): Promise<PostsApiResponse> {
+  const list = await postListsCache.read(key, async () => {
+    const response = await withOfflineFallback(`posts:${key}`, load);
+    response.data.forEach(cachePost);
+    return { ids: response.data.map((post) => post.id), meta: response.meta };
+  });
+
+  return {
+    data: list.ids
+      .map((id) => postsCache.peek(String(id)))
+      .filter((post): post is NoroffPost => post !== undefined),
+    meta: list.meta,
+  };
+}
+
 /* -------------------------------------------------------------------------- */
 /*                                READ METHODS                                */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * Paginated list of all posts, with author, reactions and comments included
+ */
+export function listPosts(
+  options: ListQueryOptions = {}
+): PaginatedList<NoroffPost> {
+  return createPaginatedList<NoroffPost>(BASE_URL, withPostIncludes(options));
+}
+
+/**
+ * Paginated list of posts from profiles the current user follows
+ */
+export function listFollowingPosts(
+  options: ListQueryOptions = {}
+): PaginatedList<NoroffPost> {
+  return createPaginatedList<NoroffPost>(
+    `${BASE_URL}/following`,
+    withPostIncludes(options)
+  );
+}
+
+/**
+ * Paginated list of posts by a single profile
+ */
+export function listProfilePosts(
+  username: string,
+  options: ListQueryOptions = {}
+): PaginatedList<NoroffPost> {
+  return createPaginatedList<NoroffPost>(
+    `/social/profiles/${encodeURIComponent(username)}/posts`,
+    withPostIncludes(options)
+  );
+}
+
 /**
  * Fetch all posts from the Noroff Social API
  */
 export async function getAllPosts(
+  limit: number = 50,
+  page: number = 1,
+  options: ListQueryOptions = {}
+): Promise<PostsApiResponse> {
+  try {
+    return await readPostList(
+      JSON.stringify(["posts", options, limit, page]),
+      () => listPosts({ ...options, limit }).page(page)
+    );
+  } catch (error) {
+    console.error("Error fetching posts:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch posts with a given tag, using the API's `_tag` filter
+ */
+export async function getPostsByTag(
+  tag: string,
   limit: number = 50,
   page: number = 1
+): Promise<PostsApiResponse> {
+  return getAllPosts(limit, page, { filters: { _tag: tag } });
+}
+
+/**
+ * Fetch posts only from profiles the current user follows
+ */
+export async function getFollowingPosts(
+  limit: number = 50,
+  page: number = 1,
+  options: ListQueryOptions = {}
 ): Promise<PostsApiResponse> {
   try {
-    const queryParams = new URLSearchParams({
-      limit: limit.toString(),
-      page: page.toString(),
-      _author: "true",
-      _reactions: "true",
-      _comments: "true",
-    });
+    return await readPostList(
+      JSON.stringify(["following", options, limit, page]),
+      () => listFollowingPosts({ ...options, limit }).page(page)
+    );
+  } catch (error) {
+    console.error("Error fetching following posts:", error);
+    throw error;
+  }
+}
 
-    return await get<PostsApiResponse>(`${BASE_URL}?${queryParams.toString()}`);
+/**
+ * Fetch posts by a single profile
+ */
+export async function getProfilePosts(
+  username: string,
+  limit: number = 50,
+  page: number = 1
+): Promise<PostsApiResponse> {
+  try {
+    return await readPostList(
+      JSON.stringify(["profile", username, limit, page]),
+      () => listProfilePosts(username, { limit }).page(page)
+    );
   } catch (error) {
-    console.error("Error fetching posts:", error);
+    console.error("Error fetching profile posts:", error);
     throw error;
   }
 }
 
+/**
+ * Fetch the newest posts of a feed, skipping the list cache, e.g. to check
+ * for new posts. The posts themselves are still cached by id.
+ */
+export async function getLatestPosts(
+  feed: "all" | "following",
+  limit: number = 20,
+  options: ListQueryOptions = {}
+): Promise<NoroffPost[]> {
+  const list =
+    feed === "following"
+      ? listFollowingPosts({ ...options, limit })
+      : listPosts({ ...options, limit });
+  const response = await list.page(1);
+
+  response.data.forEach(cachePost);
+  return response.data;
+}
+
 /**
  * Fetch posts for public viewing without authentication
  */
@@ -94,10 +323,15 @@ export async function getPublicPosts(
  */
 export async function getPostById(id: number): Promise<NoroffPost> {
   try {
-    const response = await get<{ data: NoroffPost }>(
-      `${BASE_URL}/${id}?_author=true&_reactions=true&_comments=true`
-    );
-    return response.data;
+    return await postsCache.read(String(id), async () => {
+      const response = await get<{ data: NoroffPost }>(
+        `${BASE_URL}/${id}?_author=true&_reactions=true&_comments=true`
+      );
+      if (response.data.comments) {
+        cacheComments(id, response.data.comments);
+      }
+      return response.data;
+    });
   } catch (error) {
     console.error("Error fetching post by ID:", error);
     throw error;
@@ -109,19 +343,14 @@ export async function getPostById(id: number): Promise<NoroffPost> {
  */
 export async function searchPosts(
   query: string,
-  limit: number = 20
+  limit: number = 20,
+  page: number = 1
 ): Promise<PostsApiResponse> {
   try {
-    const queryParams = new URLSearchParams({
-      q: query,
-      limit: limit.toString(),
-      _author: "true",
-      _reactions: "true",
-    });
-
-    return await get<PostsApiResponse>(
-      `${BASE_URL}/search?${queryParams.toString()}`
-    );
+    return await createPaginatedList<NoroffPost>(
+      `${BASE_URL}/search`,
+      withPostIncludes({ limit, filters: { q: query } })
+    ).page(page);
   } catch (error) {
     console.error("Error searching posts:", error);
     throw error;
@@ -141,15 +370,21 @@ export async function createPost(payload: {
   tags?: string[];
   media?: { url: string; alt?: string };
 }): Promise<NoroffPost> {
-  const response = await post(BASE_URL, {
-    ...payload,
-    tags: payload.tags && payload.tags.length > 0 ? payload.tags : [],
+  // Queued while offline, in which case this throws a QueuedError
+  const response = await sendOrQueue({
+    method: "POST",
+    endpoint: BASE_URL,
+    body: {
+      ...payload,
+      tags: payload.tags && payload.tags.length > 0 ? payload.tags : [],
+    },
+    description: `New post "${payload.title}"`,
   });
 
   const newPost = (response as any).data || response;
 
   // ✅ Normalize missing fields so UI doesn’t crash
-  return {
+  const created: NoroffPost = {
     ...newPost,
     tags: newPost.tags || [],
     _count: newPost._count || { comments: 0, reactions: 0 },
@@ -159,8 +394,12 @@ export async function createPost(payload: {
       avatar: newPost.author?.avatar || { url: "", alt: "" },
     },
   };
-}
 
+  // Cached lists don't know about the new post yet
+  postsCache.set(String(created.id), created);
+  postListsCache.invalidate();
+  return created;
+}
 
 /**
  * Update an existing post
@@ -174,15 +413,122 @@ export async function updatePost(
     media?: { url: string; alt?: string };
   }
 ): Promise<NoroffPost> {
-  const response = await put(`${BASE_URL}/${postId}`, payload);
-  return (response as any).data || response;
+  const updated: NoroffPost = await mutateOptimistically(
+    postsCache,
+    String(postId),
+    {
+      apply: (cached) => ({
+        ...cached,
+        ...payload,
+        media: payload.media
+          ? { url: payload.media.url, alt: payload.media.alt || "" }
+          : cached.media,
+        updated: new Date().toISOString(),
+      }),
+      request: async () => {
+        const response = await put(`${BASE_URL}/${postId}`, payload);
+        return (response as any).data || response;
+      },
+    }
+  );
+
+  // Written even if the post wasn't cached, so every view shows the edit.
+  // The response leaves out author, reactions and comments; keep the cached ones
+  const saved = { ...postsCache.peek(String(postId)), ...updated };
+  postsCache.set(String(postId), saved);
+  return saved;
 }
 
 /**
  * Delete a post
  */
 export async function deletePost(postId: number): Promise<void> {
-  return del(`${BASE_URL}/${postId}`);
+  await mutateOptimistically(postsCache, String(postId), {
+    apply: () => undefined,
+    request: () => del(`${BASE_URL}/${postId}`),
+  });
+
+  // Also tells views of a post that wasn't cached
+  postsCache.delete(String(postId));
+}
+
+/**
+ * Toggle the current user's reaction on a post. The cached post shows the
+ * change immediately and is corrected if the server did the opposite.
+ * @returns `true` if the reaction was added, `false` if it was removed
+ */
+export async function togglePostReaction(
+  postId: number,
+  symbol: string
+): Promise<boolean> {
+  const currentUser = getCurrentUser().user || "";
+  const current =
+    postsCache.peek(String(postId)) ?? (await getPostById(postId));
+  const hasReacted = hasUserReacted(current, symbol, currentUser);
+
+  return mutateOptimistically(postsCache, String(postId), {
+    apply: (post) => setReaction(post, symbol, currentUser, !hasReacted),
+    request: () => toggleReaction(String(postId), symbol),
+    reconcile: (post, added) => setReaction(post, symbol, currentUser, added),
+  });
+}
+
+/**
+ * Whether a user has reacted to a post, with a given symbol or at all
+ */
+export function hasUserReacted(
+  post: NoroffPost,
+  symbol: string | null,
+  user: string | null
+): boolean {
+  return (post.reactions || []).some(
+    (reaction) =>
+      (symbol === null || reaction.symbol === symbol) &&
+      !!user &&
+      (reaction.reactors || []).includes(user)
+  );
+}
+
+/**
+ * Returns the post with the user's reaction added or removed
+ */
+function setReaction(
+  post: NoroffPost,
+  symbol: string,
+  user: string,
+  add: boolean
+): NoroffPost {
+  if (hasUserReacted(post, symbol, user) === add) return post;
+
+  const change = add ? 1 : -1;
+  const reactions = [...(post.reactions || [])];
+  const index = reactions.findIndex((reaction) => reaction.symbol === symbol);
+  const reaction = reactions[index] || { symbol, count: 0, reactors: [] };
+  const reactors = reaction.reactors || [];
+  const updated = {
+    ...reaction,
+    count: Math.max(0, reaction.count + change),
+    reactors: add
+      ? [...reactors, user]
+      : reactors.filter((name) => name !== user),
+  };
+
+  if (index === -1) {
+    reactions.push(updated);
+  } else if (updated.count === 0) {
+    reactions.splice(index, 1);
+  } else {
+    reactions[index] = updated;
+  }
+
+  return {
+    ...post,
+    reactions,
+    _count: {
+      ...post._count,
+      reactions: Math.max(0, post._count.reactions + change),
+    },
+  };
 }
 
 /**
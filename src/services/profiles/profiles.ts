@@ -0,0 +1,187 @@
+/**
+ * @file profiles.ts
+ * @description Service layer for Noroff social profiles: cached profile
+ * reads, profile edits and follow/unfollow that keep the cached follower data
+ * in sync
+ */
+
+import { get, put } from '../api/client';
+import { createEntityCache, type EntityListener } from '../cache/entityCache';
+import { withOfflineFallback } from '../offline/snapshots';
+
+export interface ProfileSummary {
+  name: string;
+  email: string;
+}
+
+export interface UserProfile {
+  name: string;
+  email: string;
+  bio?: string;
+  avatar?: {
+    url: string;
+    alt: string;
+  };
+  banner?: {
+    url: string;
+    alt: string;
+  };
+  _count: {
+    posts: number;
+    followers: number;
+    following: number;
+  };
+  followers?: ProfileSummary[];
+  following?: ProfileSummary[];
+}
+
+/** Fields of one's own profile that can be edited; left out ones are kept */
+export interface ProfileChanges {
+  bio?: string;
+  avatar?: {
+    url: string;
+    alt: string;
+  };
+  banner?: {
+    url: string;
+    alt: string;
+  };
+}
+
+export interface FollowResponse {
+  data: {
+    name: string;
+    followers: ProfileSummary[];
+    following: ProfileSummary[];
+  };
+}
+
+const BASE_URL = '/social/profiles';
+
+// Profiles by name, with followers and following included
+const profilesCache = createEntityCache<UserProfile>({ ttl: 5 * 60 * 1000 });
+
+/**
+ * Subscribe to cached profile changes
+ */
+export function onProfileChange(listener: EntityListener<UserProfile>) {
+  return profilesCache.subscribe(listener);
+}
+
+/**
+ * Returns a cached profile without fetching it
+ */
+export function getCachedProfile(name: string): UserProfile | undefined {
+  return profilesCache.peek(name);
+}
+
+/**
+ * Fetch a profile with its followers and following. The last loaded copy is
+ * kept for offline viewing.
+ * @param name The profile name
+ * @param options `force` skips the cache
+ */
+export async function getProfile(
+  name: string,
+  options: { force?: boolean } = {}
+): Promise<UserProfile> {
+  return profilesCache.read(
+    name,
+    () =>
+      withOfflineFallback(`profile:${name}`, async () => {
+        const response = await get<{ data: UserProfile }>(
+          `${BASE_URL}/${encodeURIComponent(name)}?_followers=true&_following=true`
+        );
+        return response.data;
+      }),
+    options
+  );
+}
+
+/**
+ * Update the signed-in user's bio, avatar or banner. Everything showing the
+ * cached profile hears about the change.
+ * @param name Name of the signed-in user
+ * @param changes The fields to update
+ */
+export async function updateProfile(
+  name: string,
+  changes: ProfileChanges
+): Promise<UserProfile> {
+  const response: { data: UserProfile } = await put(
+    `${BASE_URL}/${encodeURIComponent(name)}`,
+    changes
+  );
+
+  // The response leaves out followers and following; keep the cached ones
+  const profile = { ...profilesCache.peek(name), ...response.data };
+  profilesCache.set(name, profile);
+  return profile;
+}
+
+/**
+ * Follow a profile
+ * @param name The profile to follow
+ * @param currentUser Name of the signed-in user
+ */
+export async function followProfile(
+  name: string,
+  currentUser: string
+): Promise<FollowResponse> {
+  const response: FollowResponse = await put(
+    `${BASE_URL}/${encodeURIComponent(name)}/follow`,
+    {}
+  );
+  updateFollowCaches(name, currentUser, true);
+  return response;
+}
+
+/**
+ * Unfollow a profile
+ * @param name The profile to unfollow
+ * @param currentUser Name of the signed-in user
+ */
+export async function unfollowProfile(
+  name: string,
+  currentUser: string
+): Promise<FollowResponse> {
+  const response: FollowResponse = await put(
+    `${BASE_URL}/${encodeURIComponent(name)}/unfollow`,
+    {}
+  );
+  updateFollowCaches(name, currentUser, false);
+  return response;
+}
+
+/**
+ * Keeps both cached profiles of a follow relationship up to date
+ */
+function updateFollowCaches(
+  name: string,
+  currentUser: string,
+  isFollowing: boolean
+): void {
+  const change = isFollowing ? 1 : -1;
+
+  profilesCache.update(name, (profile) => ({
+    ...profile,
+    followers: isFollowing
+      ? [...(profile.followers || []), { name: currentUser, email: '' }]
+      : (profile.followers || []).filter((user) => user.name !== currentUser),
+    _count: {
+      ...profile._count,
+      followers: Math.max(0, profile._count.followers + change),
+    },
+  }));
+
+  profilesCache.update(currentUser, (profile) => ({
+    ...profile,
+    following: isFollowing
+      ? [...(profile.following || []), { name, email: '' }]
+      : (profile.following || []).filter((user) => user.name !== name),
+    _count: {
+      ...profile._count,
+      following: Math.max(0, profile._count.following + change),
+    },
+  }));
+}
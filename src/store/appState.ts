@@ -0,0 +1,154 @@
+/**
+ * @file store/appState.ts
+ * @description Actions, reducer and selectors for the application state.
+ * Kept free of browser APIs so it can be tested without a DOM.
+ */
+
+import type { NoroffPost } from '../services/posts/posts';
+import type {
+  AppState,
+  AuthState,
+  OutboxConflict,
+  SearchState,
+} from '../types';
+
+export type AppAction =
+  | {
+      type: 'auth/login';
+      user: string;
+      accessToken: string;
+      apiKey?: string | null;
+    }
+  | { type: 'auth/apiKey'; apiKey: string }
+  | { type: 'auth/logout' }
+  | { type: 'route/changed'; path: string }
+  | { type: 'posts/loaded'; posts: NoroffPost[] }
+  | {
+      type: 'search/results';
+      query: string;
+      posts: NoroffPost[];
+      users: SearchState['users'];
+    }
+  | { type: 'search/cleared' }
+  | { type: 'network/status'; isOnline: boolean }
+  | { type: 'outbox/changed'; pendingWrites: number }
+  | { type: 'outbox/conflicts'; conflicts: OutboxConflict[] }
+  | { type: 'outbox/conflictsDismissed' };
+
+export const SIGNED_OUT: AuthState = {
+  user: null,
+  isLoggedIn: false,
+  accessToken: null,
+  apiKey: null,
+};
+
+const NO_SEARCH: SearchState = { query: null, posts: [], users: [] };
+
+/**
+ * Builds the starting state, e.g. from credentials saved by an earlier visit.
+ */
+export function createInitialState(
+  auth: Partial<AuthState> = {},
+  currentPage = '/'
+): AppState {
+  const accessToken = auth.accessToken ?? null;
+
+  return {
+    posts: [],
+    auth: {
+      user: auth.user ?? null,
+      accessToken,
+      apiKey: auth.apiKey ?? null,
+      isLoggedIn: !!accessToken,
+    },
+    currentPage,
+    search: NO_SEARCH,
+    network: {
+      isOnline: typeof navigator === 'undefined' || navigator.onLine !== false,
+      pendingWrites: 0,
+      conflicts: [],
+    },
+  };
+}
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'auth/login':
+      return {
+        ...state,
+        auth: {
+          user: action.user,
+          accessToken: action.accessToken,
+          apiKey: action.apiKey ?? state.auth.apiKey,
+          isLoggedIn: true,
+        },
+      };
+    case 'auth/apiKey':
+      return { ...state, auth: { ...state.auth, apiKey: action.apiKey } };
+    case 'auth/logout':
+      // Drop everything that belonged to the previous user
+      return state.auth.isLoggedIn || state.auth.accessToken
+        ? { ...state, auth: SIGNED_OUT, posts: [], search: NO_SEARCH }
+        : state;
+    case 'route/changed':
+      return action.path === state.currentPage
+        ? state
+        : { ...state, currentPage: action.path };
+    case 'posts/loaded':
+      return { ...state, posts: action.posts };
+    case 'search/results':
+      return {
+        ...state,
+        search: {
+          query: action.query,
+          posts: action.posts,
+          users: action.users,
+        },
+      };
+    case 'search/cleared':
+      return state.search.query === null
+        ? state
+        : { ...state, search: NO_SEARCH };
+    case 'network/status':
+      return action.isOnline === state.network.isOnline
+        ? state
+        : {
+            ...state,
+            network: { ...state.network, isOnline: action.isOnline },
+          };
+    case 'outbox/changed':
+      return action.pendingWrites === state.network.pendingWrites
+        ? state
+        : {
+            ...state,
+            network: { ...state.network, pendingWrites: action.pendingWrites },
+          };
+    case 'outbox/conflicts':
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          conflicts: [...state.network.conflicts, ...action.conflicts],
+        },
+      };
+    case 'outbox/conflictsDismissed':
+      return state.network.conflicts.length === 0
+        ? state
+        : { ...state, network: { ...state.network, conflicts: [] } };
+    default:
+      return state;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Selectors                                  */
+/* -------------------------------------------------------------------------- */
+
+export const selectAuth = (state: AppState) => state.auth;
+export const selectIsLoggedIn = (state: AppState) => state.auth.isLoggedIn;
+export const selectCurrentUser = (state: AppState) => state.auth.user;
+export const selectCurrentPage = (state: AppState) => state.currentPage;
+export const selectSearch = (state: AppState) => state.search;
+export const selectIsSearching = (state: AppState) =>
+  state.search.query !== null;
+export const selectNetwork = (state: AppState) => state.network;
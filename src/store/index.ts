@@ -0,0 +1,38 @@
+/**
+ * @file store/index.ts
+ * @description The application store. Auth is restored from localStorage on
+ * start and written back whenever it changes, so reloads keep the session.
+ */
+
+import { createStore } from './store';
+import { appReducer, createInitialState, type AppAction } from './appState';
+import { clearAuthData, getLocalItem, setLocalItem } from '../utils/storage';
+import type { AppState, AuthState } from '../types';
+
+export * from './appState';
+export type { Store } from './store';
+
+export const store = createStore<AppState, AppAction>(
+  appReducer,
+  createInitialState(
+    {
+      user: getLocalItem('user'),
+      accessToken: getLocalItem('accessToken'),
+      apiKey: getLocalItem('apiKey'),
+    },
+    window.location.pathname
+  )
+);
+
+function persistAuth(auth: AuthState): void {
+  if (!auth.accessToken) {
+    clearAuthData();
+    return;
+  }
+
+  setLocalItem('accessToken', auth.accessToken);
+  if (auth.user) setLocalItem('user', auth.user);
+  if (auth.apiKey) setLocalItem('apiKey', auth.apiKey);
+}
+
+store.select((state) => state.auth, persistAuth);
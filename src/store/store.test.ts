@@ -0,0 +1,157 @@
+// @vitest-environment node
+/**
+ * @file store.test.ts
+ * @description Unit tests for the observable store and the app reducer.
+ * Runs without a DOM to make sure neither depends on browser APIs.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createStore } from './store';
+import {
+  appReducer,
+  createInitialState,
+  selectCurrentUser,
+  selectIsSearching,
+} from './appState';
+
+type CounterAction = { type: 'add'; amount: number } | { type: 'noop' };
+
+function createCounter() {
+  return createStore(
+    (state: { count: number; label: string }, action: CounterAction) =>
+      action.type === 'add'
+        ? { ...state, count: state.count + action.amount }
+        : state,
+    { count: 0, label: 'counter' }
+  );
+}
+
+describe('createStore', () => {
+  it('notifies subscribers with the new and previous state', () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.dispatch({ type: 'add', amount: 2 });
+
+    expect(store.getState().count).toBe(2);
+    expect(listener).toHaveBeenCalledWith(
+      { count: 2, label: 'counter' },
+      { count: 0, label: 'counter' }
+    );
+  });
+
+  it('skips listeners when the reducer returns the same state', () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.dispatch({ type: 'noop' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('only calls select listeners when the selected value changes', () => {
+    const store = createCounter();
+    const onLabel = vi.fn();
+    const onCount = vi.fn();
+    store.select((state) => state.label, onLabel);
+    store.select((state) => state.count, onCount);
+
+    store.dispatch({ type: 'add', amount: 1 });
+
+    expect(onLabel).not.toHaveBeenCalled();
+    expect(onCount).toHaveBeenCalledWith(1, 0);
+  });
+
+  it('stops notifying after unsubscribe', () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.dispatch({ type: 'add', amount: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('appReducer', () => {
+  it('derives isLoggedIn from the restored access token', () => {
+    expect(createInitialState({ accessToken: 'token' }).auth.isLoggedIn).toBe(
+      true
+    );
+    expect(createInitialState().auth.isLoggedIn).toBe(false);
+  });
+
+  it('signs in and keeps an existing API key', () => {
+    const state = createInitialState({ apiKey: 'key' });
+    const next = appReducer(state, {
+      type: 'auth/login',
+      user: 'ola',
+      accessToken: 'token',
+    });
+
+    expect(selectCurrentUser(next)).toBe('ola');
+    expect(next.auth).toMatchObject({ isLoggedIn: true, apiKey: 'key' });
+  });
+
+  it('clears user data on logout', () => {
+    let state = createInitialState({ user: 'ola', accessToken: 'token' });
+    state = appReducer(state, {
+      type: 'search/results',
+      query: 'cats',
+      posts: [],
+      users: [],
+    });
+
+    const next = appReducer(state, { type: 'auth/logout' });
+
+    expect(next.auth.isLoggedIn).toBe(false);
+    expect(next.auth.user).toBeNull();
+    expect(selectIsSearching(next)).toBe(false);
+  });
+
+  it('clears search results', () => {
+    const state = appReducer(createInitialState(), {
+      type: 'search/results',
+      query: 'cats',
+      posts: [],
+      users: [],
+    });
+
+    const next = appReducer(state, { type: 'search/cleared' });
+
+    expect(selectIsSearching(state)).toBe(true);
+    expect(selectIsSearching(next)).toBe(false);
+    expect(next.search).toEqual({ query: null, posts: [], users: [] });
+  });
+
+  it('returns the same state for actions that change nothing', () => {
+    const state = createInitialState({}, '/feed');
+
+    expect(appReducer(state, { type: 'auth/logout' })).toBe(state);
+    expect(appReducer(state, { type: 'search/cleared' })).toBe(state);
+    expect(appReducer(state, { type: 'route/changed', path: '/feed' })).toBe(
+      state
+    );
+  });
+
+  it('collects outbox conflicts until they are dismissed', () => {
+    const conflict = { description: 'Comment on post 1', message: 'Gone' };
+    let state = createInitialState();
+    state = appReducer(state, {
+      type: 'outbox/conflicts',
+      conflicts: [conflict],
+    });
+    state = appReducer(state, {
+      type: 'outbox/conflicts',
+      conflicts: [conflict],
+    });
+
+    expect(state.network.conflicts).toHaveLength(2);
+
+    state = appReducer(state, { type: 'outbox/conflictsDismissed' });
+    expect(state.network.conflicts).toEqual([]);
+  });
+});
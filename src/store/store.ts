@@ -0,0 +1,82 @@
+/**
+ * @file store/store.ts
+ * @description Minimal observable store: state changes only through
+ * `dispatch`, and listeners are told about every change.
+ */
+
+export type Reducer<S, A> = (state: S, action: A) => S;
+export type Listener<S> = (state: S, previousState: S) => void;
+
+export interface Store<S, A> {
+  getState(): S;
+  /** Runs the reducer and notifies listeners if the state changed */
+  dispatch(action: A): void;
+  /** Calls `listener` after every state change; returns an unsubscribe function */
+  subscribe(listener: Listener<S>): () => void;
+  /**
+   * Calls `listener` only when the selected value changes.
+   *
+   * @param selector Picks the slice of state to watch
+   * @param listener Receives the new and previous selected values
+   * @param isEqual Comparison used to detect a change, `Object.is` by default
+   * @returns An unsubscribe function
+   */
+  select<T>(
+    selector: (state: S) => T,
+    listener: (value: T, previousValue: T) => void,
+    isEqual?: (a: T, b: T) => boolean
+  ): () => void;
+}
+
+/**
+ * Creates a store around a reducer.
+ *
+ * @param reducer Pure function returning the next state; returning the same
+ * object means nothing changed and no listener is called
+ * @param initialState The state before any action
+ *
+ * @example
+ * ```typescript
+ * const counter = createStore(
+ *   (count: number, action: 'increment') => count + 1,
+ *   0
+ * );
+ * counter.select((count) => count, (count) => console.log(count));
+ * counter.dispatch('increment'); // logs 1
+ * ```
+ */
+export function createStore<S, A>(
+  reducer: Reducer<S, A>,
+  initialState: S
+): Store<S, A> {
+  let state = initialState;
+  const listeners = new Set<Listener<S>>();
+
+  const subscribe = (listener: Listener<S>) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getState: () => state,
+    dispatch(action) {
+      const previousState = state;
+      const nextState = reducer(state, action);
+      if (nextState === previousState) return;
+
+      state = nextState;
+      // Copy so listeners may unsubscribe while being notified
+      [...listeners].forEach((listener) => listener(state, previousState));
+    },
+    subscribe,
+    select(selector, listener, isEqual = Object.is) {
+      return subscribe((nextState, previousState) => {
+        const value = selector(nextState);
+        const previousValue = selector(previousState);
+        if (!isEqual(value, previousValue)) listener(value, previousValue);
+      });
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @file register.ts
+ * @description Registers the service worker in production builds and lets
+ * the page decide when a new version takes over.
+ */
+
+import type { ServiceWorkerMessage } from './sw';
+
+/**
+ * Registers `/sw.js`.
+ *
+ * @param onUpdate Called when a new version is installed and waiting; call
+ * the given `activate` to switch to it, which reloads the page
+ */
+export async function registerServiceWorker(
+  onUpdate: (activate: () => void) => void
+): Promise<void> {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+
+    const promptFor = (worker: ServiceWorker) => {
+      onUpdate(() => postToWorker(worker, { type: 'SKIP_WAITING' }));
+    };
+
+    // A new version finished installing during an earlier visit
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      promptFor(registration.waiting);
+    }
+
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (
+          worker.state === 'installed' &&
+          navigator.serviceWorker.controller
+        ) {
+          promptFor(worker);
+        }
+      });
+    });
+
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    });
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+  }
+}
+
+/**
+ * Asks the active service worker to drop cached API responses.
+ */
+export function clearServiceWorkerApiCache(): void {
+  const worker = navigator.serviceWorker?.controller;
+  if (worker) postToWorker(worker, { type: 'CLEAR_API_CACHE' });
+}
+
+function postToWorker(worker: ServiceWorker, message: ServiceWorkerMessage) {
+  worker.postMessage(message);
+}
@@ -0,0 +1,54 @@
+// @vitest-environment node
+/**
+ * @file routes.test.ts
+ * @description Unit tests for choosing how the service worker handles a request.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getCacheRoute } from './routes';
+
+const ORIGIN = 'https://social.example';
+const API_URL = 'https://v2.api.noroff.dev';
+
+function request(url: string, init: Partial<Request> = {}): Request {
+  return {
+    method: 'GET',
+    mode: 'cors',
+    destination: '',
+    url,
+    ...init,
+  } as Request;
+}
+
+const routeOf = (req: Request) => getCacheRoute(req, ORIGIN, API_URL);
+
+describe('getCacheRoute', () => {
+  it('serves page loads from the app shell', () => {
+    expect(routeOf(request(`${ORIGIN}/post/1`, { mode: 'navigate' }))).toBe(
+      'shell'
+    );
+  });
+
+  it('caches built assets', () => {
+    expect(routeOf(request(`${ORIGIN}/assets/main-abc123.js`))).toBe('static');
+  });
+
+  it('caches API reads but never auth requests', () => {
+    expect(routeOf(request(`${API_URL}/social/posts?page=2`))).toBe('api');
+    expect(routeOf(request(`${API_URL}/auth/login`))).toBeNull();
+  });
+
+  it('caches images from any origin', () => {
+    expect(
+      routeOf(
+        request('https://images.example/cat.jpg', { destination: 'image' })
+      )
+    ).toBe('media');
+  });
+
+  it('leaves writes to the network', () => {
+    expect(
+      routeOf(request(`${API_URL}/social/posts`, { method: 'POST' }))
+    ).toBeNull();
+  });
+});
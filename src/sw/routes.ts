@@ -0,0 +1,52 @@
+/**
+ * @file routes.ts
+ * @description Decides how the service worker handles each request.
+ * Kept free of service worker globals so it can be tested anywhere.
+ */
+
+export type CacheRoute =
+  /** Page loads: network first, falling back to the cached app shell */
+  | 'shell'
+  /** Built assets with hashed names: cache first */
+  | 'static'
+  /** Noroff API reads: network first, falling back to the last response */
+  | 'api'
+  /** Post images and avatars: cache first, with a size limit */
+  | 'media';
+
+// Auth responses hold tokens and API keys, never cache them
+const UNCACHED_API_PATHS = ['/auth/'];
+
+/**
+ * Picks the caching route for a request.
+ *
+ * @param request The intercepted request
+ * @param origin The app's own origin, e.g. `self.location.origin`
+ * @param apiUrl Base URL of the Noroff API
+ * @returns The route, or `null` to leave the request to the browser
+ */
+export function getCacheRoute(
+  request: Request,
+  origin: string,
+  apiUrl: string
+): CacheRoute | null {
+  if (request.method !== 'GET') return null;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === origin) return 'shell';
+
+  if (url.href.startsWith(`${apiUrl}/`)) {
+    return UNCACHED_API_PATHS.some((path) => url.pathname.startsWith(path))
+      ? null
+      : 'api';
+  }
+
+  if (request.destination === 'image') return 'media';
+
+  if (url.origin === origin && url.pathname.startsWith('/assets/')) {
+    return 'static';
+  }
+
+  return null;
+}
@@ -0,0 +1,162 @@
+// @vitest-environment node
+/**
+ * @file strategies.test.ts
+ * @description Unit tests for the service worker caching strategies, run
+ * against in-memory `caches` and `fetch` stand-ins for the worker globals.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cacheFirst,
+  deleteOldCaches,
+  networkFirst,
+  precache,
+  trimCache,
+} from './strategies';
+
+const BASE = 'https://social.example';
+
+/**
+ * Minimal in-memory CacheStorage, keyed by URL.
+ */
+function createCacheStorage() {
+  const stores = new Map<string, Map<string, Response>>();
+  const toUrl = (request: RequestInfo | URL) =>
+    new URL(request instanceof Request ? request.url : request, BASE).href;
+
+  const open = async (name: string) => {
+    const entries = stores.get(name) ?? new Map<string, Response>();
+    stores.set(name, entries);
+
+    return {
+      match: async (request: RequestInfo) =>
+        entries.get(toUrl(request))?.clone(),
+      put: async (request: RequestInfo, response: Response) => {
+        entries.set(toUrl(request), response);
+      },
+      addAll: async (urls: string[]) => {
+        for (const url of urls) entries.set(toUrl(url), await fetch(url));
+      },
+      keys: async () => [...entries.keys()].map((url) => new Request(url)),
+      delete: async (request: RequestInfo) => entries.delete(toUrl(request)),
+    } as unknown as Cache;
+  };
+
+  return {
+    open,
+    match: async (request: RequestInfo) => {
+      for (const name of stores.keys()) {
+        const cached = await (await open(name)).match(request);
+        if (cached) return cached;
+      }
+      return undefined;
+    },
+    keys: async () => [...stores.keys()],
+    delete: async (name: string) => stores.delete(name),
+  };
+}
+
+const mockedFetch = vi.fn<typeof fetch>();
+
+const request = (path: string) => new Request(new URL(path, BASE));
+const textOf = (response: Response) => response.text();
+
+describe('service worker strategies', () => {
+  beforeEach(() => {
+    vi.stubGlobal('caches', createCacheStorage());
+    vi.stubGlobal('fetch', mockedFetch);
+    mockedFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('networkFirst', () => {
+    it('serves and stores the network response', async () => {
+      mockedFetch.mockResolvedValue(new Response('fresh'));
+
+      const response = await networkFirst(request('/social/posts'), 'api');
+
+      expect(await textOf(response)).toBe('fresh');
+      expect(await caches.match(request('/social/posts'))).toBeDefined();
+    });
+
+    it('serves the stored response when the network fails', async () => {
+      mockedFetch.mockResolvedValueOnce(new Response('saved'));
+      await networkFirst(request('/social/posts'), 'api');
+
+      mockedFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const response = await networkFirst(request('/social/posts'), 'api');
+
+      expect(await textOf(response)).toBe('saved');
+    });
+
+    it('falls back to the app shell for unknown pages', async () => {
+      mockedFetch.mockResolvedValueOnce(new Response('<html>'));
+      await precache('shell', ['/index.html']);
+
+      mockedFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const response = await networkFirst(
+        request('/post/1'),
+        'shell',
+        '/index.html'
+      );
+
+      expect(await textOf(response)).toBe('<html>');
+    });
+
+    it('does not store error responses', async () => {
+      mockedFetch.mockResolvedValue(new Response('nope', { status: 500 }));
+
+      await networkFirst(request('/social/posts'), 'api');
+
+      expect(await caches.match(request('/social/posts'))).toBeUndefined();
+    });
+  });
+
+  describe('cacheFirst', () => {
+    it('only goes to the network on a miss', async () => {
+      mockedFetch.mockResolvedValue(new Response('image'));
+
+      await cacheFirst(request('/a.png'), 'media');
+      const response = await cacheFirst(request('/a.png'), 'media');
+
+      expect(await textOf(response)).toBe('image');
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps at most maxEntries, dropping the oldest', async () => {
+      mockedFetch.mockImplementation(async () => new Response('image'));
+
+      for (const name of ['a', 'b', 'c']) {
+        await cacheFirst(request(`/${name}.png`), 'media', 2);
+      }
+
+      const keys = await (await caches.open('media')).keys();
+      expect(keys.map((key) => new URL(key.url).pathname)).toEqual([
+        '/b.png',
+        '/c.png',
+      ]);
+    });
+  });
+
+  it('trims a cache to the given size', async () => {
+    const cache = await caches.open('media');
+    await cache.put(request('/a.png'), new Response('a'));
+    await cache.put(request('/b.png'), new Response('b'));
+
+    await trimCache(cache, 0);
+
+    expect(await cache.keys()).toEqual([]);
+  });
+
+  it('deletes caches from earlier versions', async () => {
+    await caches.open('app-shell-old');
+    await caches.open('app-shell-new');
+
+    await deleteOldCaches(['app-shell-new']);
+
+    expect(await caches.keys()).toEqual(['app-shell-new']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @file strategies.ts
+ * @description Runtime caching strategies used by the service worker. They
+ * only rely on the `caches` and `fetch` globals, which tests can replace.
+ */
+
+/**
+ * Stores a response, unless it is an error. Opaque responses (cross-origin
+ * images without CORS) can't be inspected and are stored as they are.
+ */
+async function putInCache(
+  cacheName: string,
+  request: Request,
+  response: Response,
+  maxEntries?: number
+): Promise<void> {
+  if (!response.ok && response.type !== 'opaque') return;
+
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+  if (maxEntries !== undefined) await trimCache(cache, maxEntries);
+}
+
+/**
+ * Removes the oldest entries until the cache holds at most `maxEntries`.
+ */
+export async function trimCache(cache: Cache, maxEntries: number) {
+  const keys = await cache.keys();
+  const excess = keys.slice(0, Math.max(0, keys.length - maxEntries));
+  await Promise.all(excess.map((key) => cache.delete(key)));
+}
+
+/**
+ * Serves from the network and keeps a copy; serves the copy when offline.
+ *
+ * @param fallbackUrl Cached URL to serve when neither works, e.g. the app shell
+ */
+export async function networkFirst(
+  request: Request,
+  cacheName: string,
+  fallbackUrl?: string
+): Promise<Response> {
+  try {
+    const response = await fetch(request);
+    await putInCache(cacheName, request, response.clone());
+    return response;
+  } catch (error) {
+    const cache = await caches.open(cacheName);
+    const cached =
+      (await cache.match(request)) ??
+      (fallbackUrl ? await caches.match(fallbackUrl) : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Serves from the cache and only goes to the network for a miss.
+ *
+ * @param maxEntries Keeps the cache from growing without limit
+ */
+export async function cacheFirst(
+  request: Request,
+  cacheName: string,
+  maxEntries?: number
+): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  await putInCache(cacheName, request, response.clone(), maxEntries);
+  return response;
+}
+
+/**
+ * Caches every URL of the app shell. Fails if any of them can't be fetched,
+ * so a half-cached shell is never installed.
+ */
+export async function precache(cacheName: string, urls: string[]) {
+  const cache = await caches.open(cacheName);
+  await cache.addAll(urls);
+}
+
+/**
+ * Deletes every cache that is not in `keep`, e.g. the previous app shell.
+ */
+export async function deleteOldCaches(keep: string[]): Promise<void> {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => !keep.includes(name))
+      .map((name) => caches.delete(name))
+  );
+}
@@ -0,0 +1,87 @@
+/// <reference lib="webworker" />
+/**
+ * @file sw.ts
+ * @description Service worker, built as its own entry to `/sw.js`. Precaches
+ * the app shell, caches API reads and post media at runtime, and waits for
+ * the page to confirm before a new version takes over.
+ */
+
+import { getCacheRoute } from './routes';
+import {
+  cacheFirst,
+  deleteOldCaches,
+  networkFirst,
+  precache,
+} from './strategies';
+
+declare const self: ServiceWorkerGlobalScope & {
+  /** Replaced with the built file list by the `precache-manifest` plugin */
+  __PRECACHE_MANIFEST?: string[];
+};
+
+export type ServiceWorkerMessage =
+  | { type: 'SKIP_WAITING' }
+  /** Drops cached API responses, which belong to the signed-in user */
+  | { type: 'CLEAR_API_CACHE' };
+
+// Not imported from `constant.ts`, so the worker builds to a single file
+// without chunks shared with the app
+const API_URL = 'https://v2.api.noroff.dev';
+
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST ?? ['/', '/index.html'];
+const MEDIA_MAX_ENTRIES = 150;
+
+// A new build has a new file list, and so a new shell cache
+const SHELL_CACHE = `app-shell-${hashUrls(PRECACHE_URLS)}`;
+const API_CACHE = 'api-v1';
+const MEDIA_CACHE = 'media-v1';
+
+function hashUrls(urls: string[]): string {
+  let hash = 0;
+  for (const char of urls.join('|')) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache(SHELL_CACHE, PRECACHE_URLS));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    deleteOldCaches([SHELL_CACHE, API_CACHE, MEDIA_CACHE]).then(() =>
+      self.clients.claim()
+    )
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data as ServiceWorkerMessage | undefined;
+
+  if (message?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (message?.type === 'CLEAR_API_CACHE') {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+
+  switch (getCacheRoute(request, self.location.origin, API_URL)) {
+    case 'shell':
+      // Every route is served by index.html, so it is the offline fallback
+      event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+      break;
+    case 'static':
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+      break;
+    case 'api':
+      event.respondWith(networkFirst(request, API_CACHE));
+      break;
+    case 'media':
+      event.respondWith(cacheFirst(request, MEDIA_CACHE, MEDIA_MAX_ENTRIES));
+      break;
+  }
+});
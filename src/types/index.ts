@@ -7,7 +7,7 @@
  */
 
 // import type { Post } from './dummyjson-types';
-import type { Post } from './noroff-types';
+import type { NoroffPost } from '../services/posts/posts';
 
 export interface User {
   id: number;
@@ -20,19 +20,42 @@ export interface User {
 }
 
 export interface AuthState {
-  user: User | null;
-  isAuthenticated: boolean;
+  /** Name of the signed-in Noroff profile */
+  user: string | null;
   isLoggedIn: boolean;
   // https://docs.noroff.dev/docs/v2/authentication
-  accessToken: string;
-  refreshToken: string;
-  apiKey: string;
+  accessToken: string | null;
+  apiKey: string | null;
+}
+
+export interface SearchState {
+  /** The active search, `null` when the feed is not showing results */
+  query: string | null;
+  posts: NoroffPost[];
+  users: NoroffPost['author'][];
+}
+
+/** A queued write the server refused when it was replayed */
+export interface OutboxConflict {
+  description: string;
+  message: string;
+}
+
+export interface NetworkState {
+  isOnline: boolean;
+  /** Writes made while offline that are waiting to be sent */
+  pendingWrites: number;
+  conflicts: OutboxConflict[];
 }
 
 export interface AppState {
-  posts: Post[];
-  auth?: AuthState;
-  currentPage?: string;
+  /** Posts currently shown in the feed */
+  posts: NoroffPost[];
+  auth: AuthState;
+  /** Path of the rendered route, including its query string */
+  currentPage: string;
+  search: SearchState;
+  network: NetworkState;
 }
 
 export interface Meta {
@@ -51,23 +74,66 @@ export interface ErrorReport {
 }
 
 // ## Define our custom error types
+// API failures carry the HTTP `statusCode` they were mapped from, if any.
 
 export class ValidationError extends Error {
-  constructor(message: string) {
+  public errors: string[];
+  public statusCode?: number;
+
+  constructor(
+    message: string,
+    errors: string[] = [message],
+    statusCode?: number
+  ) {
     // Call the parent constructor
     super(message);
     // Set the error name to the class name
     this.name = 'ValidationError';
+    // Keep every field message, not just the first one
+    this.errors = errors;
+    this.statusCode = statusCode;
+  }
+}
+
+export class AuthError extends Error {
+  public statusCode = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  public statusCode = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
   }
 }
 
 export class NotFoundError extends Error {
+  public statusCode = 404;
+
   constructor(message: string) {
     super(message);
     this.name = 'NotFoundError';
   }
 }
 
+export class RateLimitError extends Error {
+  public statusCode = 429;
+  /** Milliseconds the server asked us to wait, if it said */
+  public retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
 export class NetworkError extends Error {
   constructor(message: string) {
     super(message);
@@ -75,6 +141,30 @@ export class NetworkError extends Error {
   }
 }
 
+export class OfflineError extends NetworkError {
+  constructor(message = 'You appear to be offline. Check your connection.') {
+    super(message);
+    this.name = 'OfflineError';
+  }
+}
+
+/** A write made while offline that was saved to be sent later */
+export class QueuedError extends OfflineError {
+  constructor(
+    message = "You're offline. This will be sent when you reconnect."
+  ) {
+    super(message);
+    this.name = 'QueuedError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(message = 'The request timed out.') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
 // ## Authentication interfaces for login/register
 
 export interface LoginCredentials {
@@ -96,9 +186,37 @@ export interface ApiResponse<T> {
   errors?: Array<{
     message: string;
     code?: string;
+    path?: string[];
   }>;
 }
 
+// ## Pagination interfaces (shared by every Noroff list endpoint)
+
+export interface PaginationMeta {
+  isFirstPage: boolean;
+  isLastPage: boolean;
+  currentPage: number;
+  previousPage: number | null;
+  nextPage: number | null;
+  pageCount: number;
+  totalCount: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  meta: PaginationMeta;
+}
+
+export interface ListQueryOptions {
+  limit?: number;
+  page?: number;
+  /** Field to sort by, e.g. `created` */
+  sort?: string;
+  sortOrder?: 'asc' | 'desc';
+  /** Extra query parameters such as `_tag`, `_author` or `q` */
+  filters?: Record<string, string | number | boolean | undefined>;
+}
+
 export interface LoginResponse {
   accessToken: string;
   name: string;
@@ -121,3 +239,87 @@ export interface FormValidationResult {
   isValid: boolean;
   errors: string[];
 }
+
+// ## Routing interfaces
+
+export interface RouteContext {
+  /** Values of the `:name` segments in the matched route */
+  params: Record<string, string>;
+  /** Parsed query string of the current URL */
+  query: URLSearchParams;
+}
+
+type EventMapOf<Target> = Target extends Window
+  ? WindowEventMap
+  : Target extends Document
+    ? DocumentEventMap
+    : Target extends HTMLElement
+      ? HTMLElementEventMap
+      : Record<string, Event>;
+
+/**
+ * Passed to a component's lifecycle hooks. Listeners added with `listen` and
+ * callbacks given to `onCleanup` are removed when the component unmounts.
+ */
+export interface ComponentContext<Props = RouteContext> {
+  /** The element the component's HTML was rendered into */
+  root: HTMLElement;
+  /** Props of the latest render */
+  props: Props;
+  /** Aborted when the component unmounts */
+  signal: AbortSignal;
+  /** Adds an event listener that is removed on unmount */
+  listen<Target extends EventTarget, Type extends keyof EventMapOf<Target>>(
+    target: Target,
+    type: Type & string,
+    listener: (event: EventMapOf<Target>[Type]) => void,
+    options?: AddEventListenerOptions
+  ): void;
+  /** Runs `cleanup` on unmount, e.g. to unsubscribe from a store */
+  onCleanup(cleanup: () => void): void;
+}
+
+/**
+ * A piece of UI with a lifecycle: `render` builds the HTML, `mount` wires it
+ * up once it is in the document, and `unmount` runs before it is replaced.
+ */
+export interface Component<Props = RouteContext> {
+  /** Returns the component's HTML; may load data first */
+  render(props: Props): string | Promise<string>;
+  /** Wires up the rendered HTML */
+  mount?(context: ComponentContext<Props>): void;
+  /**
+   * Called instead of unmount and mount when the component renders again
+   * with new props, once the new HTML is in place. Listeners and cleanups
+   * added on mount are kept.
+   */
+  update?(context: ComponentContext<Props>, previousProps: Props): void;
+  /** Runs before the component's listeners and cleanups are removed */
+  unmount?(context: ComponentContext<Props>): void;
+}
+
+export type PageComponent = Component<RouteContext>;
+
+export interface NavigationTarget extends RouteContext {
+  /** The path being navigated to, including its query string */
+  path: string;
+  route: RouteDefinition;
+}
+
+/** Returns `false` to cancel, a path to redirect to, or nothing to continue */
+export type NavigationGuard = (
+  to: NavigationTarget
+) => boolean | string | void | Promise<boolean | string | void>;
+
+export type AfterNavigationHook = (to: NavigationTarget) => void;
+
+export interface RouteDefinition {
+  url: string;
+  component: PageComponent;
+  /** Only for signed-in users; guests are sent to login and back again */
+  protected?: boolean;
+  /** Only for guests; signed-in users are sent to the feed */
+  guestOnly?: boolean;
+  beforeEnter?: NavigationGuard;
+  afterEnter?: AfterNavigationHook;
+}
@@ -4,41 +4,34 @@
  * @author Your Name
  */
 
-import { getLocalItem } from './storage';
+import { store } from '../store';
 
 /**
  * Check if user is currently logged in
  */
 export function isLoggedIn(): boolean {
-  const accessToken = getLocalItem('accessToken');
-  return !!accessToken;
+  return store.getState().auth.isLoggedIn;
 }
 
 /**
  * Get current user data
  */
 export function getCurrentUser() {
-  return {
-    accessToken: getLocalItem('accessToken'),
-    user: getLocalItem('user'),
-    apiKey: getLocalItem('apiKey'),
-  };
+  return store.getState().auth;
 }
 
 /**
  * Clear all authentication data (logout)
  */
 export function logout() {
-  localStorage.removeItem('accessToken');
-  localStorage.removeItem('user');
-  localStorage.removeItem('apiKey');
+  store.dispatch({ type: 'auth/logout' });
 }
 
 /**
  * Check if access token is expired (basic check)
  */
 export function isTokenExpired(): boolean {
-  const token = getLocalItem('accessToken');
+  const token = store.getState().auth.accessToken;
   if (!token) return true;
 
   try {
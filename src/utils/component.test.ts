@@ -0,0 +1,103 @@
+/**
+ * @file component.test.ts
+ * @description Unit tests for mounting components and their lifecycle.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOutlet } from './component';
+import type { Component } from '../types';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createOutlet', () => {
+  it('mounts the rendered HTML and removes listeners on unmount', () => {
+    const outlet = createOutlet(document.createElement('div'));
+    const onKeydown = vi.fn();
+    const cleanup = vi.fn();
+    const page: Component<string> = {
+      render: (name) => `<p>${name}</p>`,
+      mount({ listen, onCleanup }) {
+        listen(document, 'keydown', onKeydown);
+        onCleanup(cleanup);
+      },
+    };
+
+    outlet.show(page, '<p>ada</p>', 'ada');
+    document.dispatchEvent(new KeyboardEvent('keydown'));
+    expect(outlet.root.innerHTML).toBe('<p>ada</p>');
+    expect(onKeydown).toHaveBeenCalledTimes(1);
+
+    outlet.clear();
+    document.dispatchEvent(new KeyboardEvent('keydown'));
+    expect(onKeydown).toHaveBeenCalledTimes(1);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(outlet.root.innerHTML).toBe('');
+  });
+
+  it('unmounts the previous component before mounting the next', () => {
+    const outlet = createOutlet(document.createElement('div'));
+    const calls: string[] = [];
+    const component = (name: string): Component<null> => ({
+      render: () => name,
+      mount: ({ root }) => calls.push(`mount ${name} ${root.textContent}`),
+      unmount: ({ root }) => calls.push(`unmount ${name} ${root.textContent}`),
+    });
+    const first = component('first');
+
+    outlet.show(first, 'first', null);
+    outlet.show(component('second'), 'second', null);
+    outlet.show(first, 'first', null);
+
+    expect(calls).toEqual([
+      'mount first first',
+      'unmount first first',
+      'mount second second',
+      'unmount second second',
+      'mount first first',
+    ]);
+  });
+
+  it('updates a mounted component that renders again with new props', () => {
+    const outlet = createOutlet(document.createElement('div'));
+    const mount = vi.fn();
+    const update = vi.fn();
+    const unmount = vi.fn();
+    const page: Component<number> = {
+      render: (page) => `page ${page}`,
+      mount,
+      update,
+      unmount,
+    };
+
+    outlet.show(page, 'page 1', 1);
+    outlet.show(page, 'page 2', 2);
+
+    expect(mount).toHaveBeenCalledTimes(1);
+    expect(unmount).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ props: 2 }),
+      1
+    );
+    expect(outlet.root.textContent).toBe('page 2');
+  });
+
+  it('keeps going when a hook throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const outlet = createOutlet(document.createElement('div'));
+    const cleanup = vi.fn();
+    const broken: Component<null> = {
+      render: () => '',
+      mount: ({ onCleanup }) => {
+        onCleanup(cleanup);
+        throw new Error('mount failed');
+      },
+    };
+
+    outlet.show(broken, '', null);
+    outlet.clear();
+
+    expect(cleanup).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @file component.ts
+ * @description Mounts components into an element and runs their lifecycle
+ * hooks. Whatever a component registered through its context is removed
+ * when it unmounts, so pages don't leak listeners across navigations.
+ */
+
+import type { Component, ComponentContext } from '../types';
+
+export interface Outlet {
+  /** The element components are rendered into */
+  readonly root: HTMLElement;
+  /**
+   * Shows a rendered component. The component on screen is unmounted first,
+   * unless it is the same one and can `update` to the new props.
+   */
+  show<Props>(component: Component<Props>, html: string, props: Props): void;
+  /** Renders a component with `props` and shows it */
+  render<Props>(component: Component<Props>, props: Props): Promise<void>;
+  /** Unmounts the component on screen and empties the element */
+  clear(): void;
+}
+
+interface Mounted<Props> {
+  component: Component<Props>;
+  context: ComponentContext<Props>;
+  controller: AbortController;
+  cleanups: (() => void)[];
+}
+
+/**
+ * Creates an outlet that renders one component at a time into `root`.
+ *
+ * @example
+ * ```typescript
+ * const outlet = createOutlet(document.getElementById('js-navbar')!);
+ * await outlet.render(NavbarPage, undefined);
+ * ```
+ */
+export function createOutlet(root: HTMLElement): Outlet {
+  let mounted: Mounted<any> | null = null;
+
+  const unmount = () => {
+    if (!mounted) return;
+    const { component, context, controller, cleanups } = mounted;
+    mounted = null;
+
+    runHook('unmount', () => component.unmount?.(context));
+    controller.abort();
+    cleanups.reverse().forEach((cleanup) => runHook('cleanup', cleanup));
+  };
+
+  const mount = <Props>(
+    component: Component<Props>,
+    html: string,
+    props: Props
+  ) => {
+    const controller = new AbortController();
+    const cleanups: (() => void)[] = [];
+    const context: ComponentContext<Props> = {
+      root,
+      props,
+      signal: controller.signal,
+      listen(target, type, listener, options) {
+        target.addEventListener(type, listener as EventListener, {
+          ...options,
+          signal: controller.signal,
+        });
+      },
+      onCleanup(cleanup) {
+        cleanups.push(cleanup);
+      },
+    };
+
+    root.innerHTML = html;
+    mounted = { component, context, controller, cleanups };
+    runHook('mount', () => component.mount?.(context));
+  };
+
+  const show: Outlet['show'] = (component, html, props) => {
+    if (mounted?.component === component && component.update) {
+      const { context } = mounted;
+      const previousProps = context.props;
+
+      root.innerHTML = html;
+      context.props = props;
+      runHook('update', () => component.update?.(context, previousProps));
+      return;
+    }
+
+    unmount();
+    mount(component, html, props);
+  };
+
+  return {
+    root,
+    show,
+    async render(component, props) {
+      show(component, await component.render(props), props);
+    },
+    clear() {
+      unmount();
+      root.innerHTML = '';
+    },
+  };
+}
+
+// A failing hook is logged so it can't stop the rest of the lifecycle
+function runHook(name: string, hook: () => void): void {
+  try {
+    hook();
+  } catch (error) {
+    console.error(`Component ${name} failed:`, error);
+  }
+}
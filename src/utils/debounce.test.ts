@@ -0,0 +1,44 @@
+/**
+ * @file debounce.test.ts
+ * @description Unit tests for the debounce utility.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { debounce } from './debounce';
+
+describe('debounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls the function once the delay has passed', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 300);
+
+    debounced('a');
+    vi.advanceTimersByTime(299);
+    expect(func).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledWith('a');
+  });
+
+  it('only calls the function with the latest arguments', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 300);
+
+    debounced('a');
+    vi.advanceTimersByTime(200);
+    debounced('ab');
+    vi.advanceTimersByTime(200);
+    debounced('abc');
+    vi.advanceTimersByTime(300);
+
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith('abc');
+  });
+});
@@ -3,3 +3,27 @@
  * @description Utility function to debounce a given function, ensuring it is only called after a specified delay period has passed since the last invocation.
  * @author Your Name
  */
+
+/**
+ * Creates a debounced function that delays invoking `func` until `wait`
+ * milliseconds have passed since the last time it was called.
+ * @param {Function} func The function to debounce.
+ * @param {number} wait The number of milliseconds to delay.
+ * @returns {Function} Returns the new debounced function.
+ * @example
+ * ```
+ * // Only search once the user stops typing for 300ms
+ * searchInput.addEventListener('input', debounce(handleSearch, 300));
+ * ```
+ */
+export function debounce<Args extends unknown[]>(
+  func: (...args: Args) => void,
+  wait = 250
+) {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  return function (this: unknown, ...args: Args) {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => func.apply(this, args), wait);
+  };
+}
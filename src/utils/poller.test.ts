@@ -0,0 +1,76 @@
+/**
+ * @file poller.test.ts
+ * @description Unit tests for the background poller.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPoller } from './poller';
+
+function setHidden(hidden: boolean) {
+  Object.defineProperty(document, 'hidden', {
+    configurable: true,
+    get: () => hidden,
+  });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('createPoller', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setHidden(false);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs the task every interval until stopped', async () => {
+    const task = vi.fn().mockResolvedValue(undefined);
+    const poller = createPoller(task, { interval: 1000 });
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(task).toHaveBeenCalledTimes(3);
+
+    poller.stop();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('backs off after failures and resets after a success', async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined);
+    const poller = createPoller(task, { interval: 1000, maxInterval: 3000 });
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1000); // fails, waits 2s
+    await vi.advanceTimersByTimeAsync(2000); // fails, waits 3s (capped)
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1); // succeeds, back to 1s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(4);
+    poller.stop();
+  });
+
+  it('pauses while the page is hidden and catches up when shown', async () => {
+    const task = vi.fn().mockResolvedValue(undefined);
+    const poller = createPoller(task, { interval: 1000 });
+
+    poller.start();
+    setHidden(true);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).not.toHaveBeenCalled();
+
+    setHidden(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    poller.stop();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file poller.ts
+ * @description Utility to run an async task repeatedly in the background.
+ * Pauses while the tab is hidden and backs off after failures.
+ */
+
+export interface PollerOptions {
+  /** Delay between runs while the task succeeds, in milliseconds */
+  interval: number;
+  /** Longest delay after repeated failures, in milliseconds */
+  maxInterval?: number;
+}
+
+export interface Poller {
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+}
+
+/**
+ * Creates a poller that runs `task` every `interval` milliseconds.
+ * Each failure doubles the delay up to `maxInterval`; a success resets it.
+ * While the page is hidden nothing runs, and a run that came due in the
+ * meantime happens as soon as the page is visible again.
+ *
+ * @example
+ * ```typescript
+ * const poller = createPoller(checkForNewPosts, { interval: 30_000 });
+ * poller.start();
+ * ```
+ */
+export function createPoller(
+  task: () => Promise<void>,
+  { interval, maxInterval = interval * 10 }: PollerOptions
+): Poller {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let inFlight = false;
+  let delay = interval;
+  let dueAt = 0;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!running || inFlight || document.hidden) return;
+
+    timer = setTimeout(run, Math.max(0, dueAt - Date.now()));
+  };
+
+  const run = async () => {
+    timer = undefined;
+    inFlight = true;
+
+    try {
+      await task();
+      delay = interval;
+    } catch (error) {
+      delay = Math.min(delay * 2, maxInterval);
+      console.warn(`Polling failed, retrying in ${delay / 1000}s:`, error);
+    } finally {
+      inFlight = false;
+    }
+
+    dueAt = Date.now() + delay;
+    schedule();
+  };
+
+  const onVisibilityChange = () => schedule();
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      delay = interval;
+      dueAt = Date.now() + interval;
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      schedule();
+    },
+    stop() {
+      running = false;
+      clearTimeout(timer);
+      timer = undefined;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    },
+    isRunning: () => running,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @file richText.test.ts
+ * @description Unit tests for the Markdown, mention and hashtag renderer.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { renderInlineRichText, renderRichText } from './richText';
+
+describe('renderInlineRichText', () => {
+  it('escapes HTML', () => {
+    expect(renderInlineRichText('<img src=x onerror="alert(1)">')).toBe(
+      '&lt;img src=x onerror=&quot;alert(1)&quot;&gt;'
+    );
+  });
+
+  it('formats bold, italics and code', () => {
+    expect(renderInlineRichText('**bold** *it* _also_ `a <b>`')).toBe(
+      '<strong>bold</strong> <em>it</em> <em>also</em> <code>a &lt;b&gt;</code>'
+    );
+  });
+
+  it('leaves snake_case and lone asterisks alone', () => {
+    expect(renderInlineRichText('my_var_name and 2 * 3')).toBe(
+      'my_var_name and 2 * 3'
+    );
+  });
+
+  it('only links http(s) URLs', () => {
+    expect(renderInlineRichText('[docs](https://example.com/a?b=1)')).toBe(
+      '<a href="https://example.com/a?b=1" class="rich-link" target="_blank" rel="noopener noreferrer">docs</a>'
+    );
+    expect(renderInlineRichText('[x](javascript:alert(1))')).not.toContain(
+      '<a'
+    );
+  });
+
+  it('links mentions and hashtags', () => {
+    const html = renderInlineRichText('Hi @ada_l, see #type-script!');
+
+    expect(html).toContain('href="/profile/ada_l" class="mention"');
+    expect(html).toContain('data-link-profile="ada_l"');
+    expect(html).toContain('href="/tags/type-script" class="hashtag"');
+    expect(html).toContain('>#type-script</a>!');
+  });
+
+  it('does not treat emails, URLs or code as mentions and hashtags', () => {
+    const html = renderInlineRichText(
+      'mail a@b.com, [site](https://x.dev/#top) and `#not-a-tag`'
+    );
+
+    expect(html).not.toContain('class="mention"');
+    expect(html).not.toContain('class="hashtag"');
+  });
+});
+
+describe('renderRichText', () => {
+  it('builds paragraphs with line breaks', () => {
+    expect(renderRichText('one\ntwo\n\nthree')).toBe(
+      '<p>one<br>two</p><p>three</p>'
+    );
+  });
+
+  it('builds bulleted and numbered lists', () => {
+    expect(renderRichText('Steps:\n1. *a*\n2. b\n- c')).toBe(
+      '<p>Steps:</p><ol><li><em>a</em></li><li>b</li></ol><ul><li>c</li></ul>'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @file richText.ts
+ * @description Renders user-written text (post bodies, comments) as HTML.
+ * Supports a small Markdown subset — bold, italics, inline code, links and
+ * lists — plus `@mentions` and `#hashtags`. Everything else is escaped, so
+ * the result is safe to insert with `innerHTML`.
+ */
+
+import { escapeHtml } from './ui';
+
+const LIST_ITEM = /^\s*([-*]|\d+[.)])\s+(.*)$/;
+// Marks text that has already been turned into HTML, see `protect`
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders text as paragraphs and lists with inline formatting.
+ *
+ * @example
+ * ```typescript
+ * renderRichText('Hi **@ada**, see #typescript');
+ * // <p>Hi <strong><a class="mention" …>@ada</a></strong>, see <a class="hashtag" …>#typescript</a></p>
+ * ```
+ */
+export function renderRichText(text: string = ''): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInlineRichText).join('<br>')}</p>`);
+    }
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      blocks.push(
+        `<${tag}>${list.items.map((item) => `<li>${renderInlineRichText(item)}</li>`).join('')}</${tag}>`
+      );
+    }
+    list = null;
+  };
+
+  text.split(/\r?\n/).forEach((line) => {
+    const item = line.match(LIST_ITEM);
+
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      flushParagraph();
+      if (list?.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push(item[2]);
+    } else if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  });
+  flushParagraph();
+  flushList();
+
+  return blocks.join('');
+}
+
+/**
+ * Renders a single line of text with inline formatting, mentions and
+ * hashtags, without wrapping it in a paragraph
+ */
+export function renderInlineRichText(text: string = ''): string {
+  const rendered: string[] = [];
+  // Swaps finished HTML for a placeholder so later patterns don't touch it
+  const protect = (html: string) => `\u0000${rendered.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/\u0000/g, '')
+    .replace(/`([^`\n]+)`/g, (_, code: string) =>
+      protect(`<code>${escapeHtml(code)}</code>`)
+    )
+    .replace(
+      /\[([^\]\n]+)\]\(([^)\s]+)\)/g,
+      (match, label: string, url: string) =>
+        isHttpUrl(url)
+          ? protect(
+              `<a href="${escapeHtml(url)}" class="rich-link" target="_blank" rel="noopener noreferrer">${formatEmphasis(escapeHtml(label))}</a>`
+            )
+          : match
+    );
+
+  html = formatEmphasis(escapeHtml(html))
+    .replace(/(^|[^\w@/])@(\w+)/g, (_, before: string, name: string) => {
+      return `${before}${protect(
+        `<a href="/profile/${encodeURIComponent(name)}" class="mention" data-link-profile="${name}">@${name}</a>`
+      )}`;
+    })
+    .replace(/(^|[^\w&/])#(\w[\w-]*)/g, (_, before: string, tag: string) => {
+      return `${before}${protect(
+        `<a href="/tags/${encodeURIComponent(tag)}" class="hashtag" data-link-tag="${tag}">#${tag}</a>`
+      )}`;
+    });
+
+  // Placeholders can be nested, e.g. code inside a link label
+  while (html.includes('\u0000')) {
+    html = html.replace(PLACEHOLDER, (_, index: string) => rendered[+index]);
+  }
+  return html;
+}
+
+/**
+ * Applies bold and italics to already escaped text
+ */
+function formatEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>');
+}
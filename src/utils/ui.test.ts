@@ -0,0 +1,160 @@
+/**
+ * @file ui.test.ts
+ * @description Unit tests for the HTML templating and link helpers.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  delegateActions,
+  delegateLinks,
+  escapeHtml,
+  html,
+  raw,
+  safeUrl,
+} from './ui';
+
+describe('html', () => {
+  it('escapes interpolated values', () => {
+    const name = `"><img src=x onerror=alert(1)>`;
+
+    expect(html`<a title="${name}">${name}</a>`.toString()).toBe(
+      `<a title="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;">&quot;&gt;&lt;img src=x onerror=alert(1)&gt;</a>`
+    );
+  });
+
+  it('nests templates and trusted markup without escaping them again', () => {
+    const items = ['a', '<b>'].map((item) => html`<i>${item}</i>`);
+    const markup = html`<p>${items}${raw('<br>')}</p>`;
+
+    expect(markup.toString()).toBe('<p><i>a</i><i>&lt;b&gt;</i><br></p>');
+  });
+
+  it('renders nothing for null and undefined', () => {
+    expect(html`<p>${null}${undefined}${0}${false}</p>`.toString()).toBe(
+      '<p>0false</p>'
+    );
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes quotes for attribute values', () => {
+    expect(escapeHtml(`it's "here"`)).toBe('it&#39;s &quot;here&quot;');
+  });
+});
+
+describe('safeUrl', () => {
+  it('accepts http(s) URLs and paths on this site', () => {
+    expect(safeUrl('https://example.com/a.jpg')).toBe(
+      'https://example.com/a.jpg'
+    );
+    expect(safeUrl('/tags/web')).toBe('/tags/web');
+  });
+
+  it('falls back for other schemes and protocol-relative URLs', () => {
+    expect(safeUrl('javascript:alert(1)', '/fallback.png')).toBe(
+      '/fallback.png'
+    );
+    expect(safeUrl(' JavaScript:alert(1)')).toBe('');
+    expect(safeUrl('data:text/html,<script>')).toBe('');
+    expect(safeUrl('//evil.example/a.jpg')).toBe('');
+    expect(safeUrl(undefined, '/fallback.png')).toBe('/fallback.png');
+  });
+});
+
+describe('delegateLinks', () => {
+  it('calls the handler for the clicked link type', () => {
+    const root = document.createElement('div');
+    root.innerHTML = html`<a href="/profile/ada" data-link-profile="ada"
+      ><span>ada</span></a
+    >`.toString();
+    const profile = vi.fn();
+    const stop = delegateLinks({ profile }, root);
+
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+    root.querySelector('span')!.dispatchEvent(event);
+
+    expect(profile).toHaveBeenCalledWith('ada');
+    expect(event.defaultPrevented).toBe(true);
+    stop();
+  });
+
+  it('leaves clicks with a modifier key to the browser', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<a href="/tags/web" data-link-tag="web">#web</a>';
+    const tag = vi.fn();
+    const stop = delegateLinks({ tag }, root);
+
+    root
+      .querySelector('a')!
+      .dispatchEvent(new MouseEvent('click', { bubbles: true, ctrlKey: true }));
+
+    expect(tag).not.toHaveBeenCalled();
+    stop();
+  });
+});
+
+describe('delegateActions', () => {
+  it('calls the named handler with the element carrying the action', () => {
+    const root = document.createElement('div');
+    root.innerHTML =
+      '<button data-action="delete-post" data-post-id="7"><span>x</span></button>';
+    const deletePost = vi.fn();
+    const stop = delegateActions(root, {
+      click: { 'delete-post': deletePost },
+    });
+
+    root
+      .querySelector('span')!
+      .dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+    expect(deletePost).toHaveBeenCalledWith(
+      root.querySelector('button'),
+      expect.any(MouseEvent)
+    );
+    stop();
+  });
+
+  it('dispatches each event type by its own attribute', () => {
+    const root = document.createElement('div');
+    root.innerHTML =
+      '<input data-input-action="count" data-keydown-action="submit" />';
+    const count = vi.fn();
+    const submit = vi.fn();
+    const stop = delegateActions(
+      root,
+      { input: { count } },
+      { keydown: { submit } }
+    );
+    const input = root.querySelector('input')!;
+
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    input.dispatchEvent(
+      new KeyboardEvent('keydown', { bubbles: true, key: 'Enter' })
+    );
+    input.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+    expect(count).toHaveBeenCalledTimes(1);
+    expect(submit).toHaveBeenCalledWith(
+      input,
+      expect.objectContaining({ key: 'Enter' })
+    );
+    stop();
+  });
+
+  it('ignores unknown actions and stops after cleanup', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<button data-action="other">x</button>';
+    const button = root.querySelector('button')!;
+    const other = vi.fn();
+
+    const stopFirst = delegateActions(root, { click: {} });
+    button.click();
+    stopFirst();
+
+    const stop = delegateActions(root, { click: { other } });
+    stop();
+    button.click();
+
+    expect(other).not.toHaveBeenCalled();
+  });
+});
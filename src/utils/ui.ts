@@ -105,3 +105,275 @@ export function isBrowser() {
     typeof window !== 'undefined' && typeof window.document !== 'undefined'
   );
 }
+
+/**
+ * Shows an error message at the end of a container, replacing any earlier one.
+ * The message removes itself after `duration` milliseconds.
+ *
+ * @param container - The element to show the error in, e.g. a post card.
+ * @param message - The text to show.
+ * @param duration - How long the message stays, in milliseconds.
+ */
+export function showInlineError(
+  container: Element,
+  message: string,
+  duration = 5000
+) {
+  clearInlineError(container);
+
+  const error = document.createElement('p');
+  error.className = 'inline-error';
+  error.setAttribute('role', 'alert');
+  error.textContent = message;
+  container.append(error);
+
+  setTimeout(() => error.remove(), duration);
+}
+
+/**
+ * Removes an error shown with `showInlineError`.
+ *
+ * @param container - The element the error was shown in.
+ */
+export function clearInlineError(container: Element) {
+  container
+    .querySelectorAll(':scope > .inline-error')
+    .forEach((error) => error.remove());
+}
+
+/**
+ * Markup that `html` inserts as-is. Create it with `html` or, for markup that
+ * is already known to be safe, with `raw`.
+ */
+export class SafeHtml {
+  readonly #markup: string;
+
+  constructor(markup: string) {
+    this.#markup = markup;
+  }
+
+  toString(): string {
+    return this.#markup;
+  }
+}
+
+/** Values that can be interpolated into an `html` template */
+export type HtmlValue =
+  | SafeHtml
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | HtmlValue[];
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ *
+ * @param value - The value to escape; `null` and `undefined` become an empty string.
+ * @returns The escaped text.
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Marks markup as safe, so `html` doesn't escape it. Only use this for HTML
+ * built by our own code, never for data from the API or the URL.
+ *
+ * @param markup - Trusted HTML.
+ */
+export function raw(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+function renderHtmlValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.toString();
+  if (Array.isArray(value)) return value.map(renderHtmlValue).join('');
+  return escapeHtml(value);
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is
+ * `SafeHtml`. Arrays are joined, `null` and `undefined` render nothing.
+ *
+ * Don't interpolate into inline event handlers or `<script>`: escaping
+ * doesn't make text safe there. Use `data-*` attributes instead.
+ *
+ * @example
+ * ```typescript
+ * const item = html`<li title="${post.title}">${post.title}</li>`;
+ * list.innerHTML = html`<ul>${posts.map((post) => html`<li>${post.title}</li>`)}</ul>`.toString();
+ * ```
+ */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: HtmlValue[]
+): SafeHtml {
+  return new SafeHtml(
+    strings.reduce(
+      (markup, string, index) =>
+        markup + renderHtmlValue(values[index - 1]) + string
+    )
+  );
+}
+
+/**
+ * Returns the URL if it is safe to use in `href` or `src`: absolute http(s)
+ * URLs and paths on this site. Anything else, e.g. `javascript:` or `data:`
+ * URLs, gives the fallback.
+ *
+ * @param url - The URL to check, usually from the API.
+ * @param fallback - Returned for missing or unsafe URLs.
+ *
+ * @example
+ * ```typescript
+ * safeUrl('https://example.com/a.jpg'); // 'https://example.com/a.jpg'
+ * safeUrl('javascript:alert(1)', '/placeholder.png'); // '/placeholder.png'
+ * ```
+ */
+export function safeUrl(url: unknown, fallback: string = ''): string {
+  if (typeof url !== 'string') return fallback;
+
+  const value = url.trim();
+  if (/^\/(?![/\\])/.test(value)) return value;
+
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+      ? value
+      : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Link types handled by `delegateLinks`, e.g. `data-link-profile="ada"` */
+export type LinkHandlers = Partial<
+  Record<'profile' | 'tag' | 'post', (value: string) => void>
+>;
+
+/**
+ * Handles clicks on in-app links with one listener instead of inline
+ * `onclick` handlers. A link names its type and target in a data attribute:
+ *
+ * ```html
+ * <a href="/profile/ada" data-link-profile="ada">ada</a>
+ * ```
+ *
+ * Clicks with a modifier key are left to the browser, so links can still be
+ * opened in a new tab.
+ *
+ * @param handlers - Called with the attribute value, keyed by link type.
+ * @param root - The element to listen on.
+ * @returns A function that removes the listener.
+ */
+export function delegateLinks(
+  handlers: LinkHandlers,
+  root: Document | HTMLElement = document
+): () => void {
+  const types = Object.keys(handlers) as (keyof LinkHandlers)[];
+  const selector = types.map((type) => `[data-link-${type}]`).join(',');
+
+  const onClick = (event: Event) => {
+    const { target } = event;
+    if (
+      !selector ||
+      event.defaultPrevented ||
+      !(target instanceof Element) ||
+      (event instanceof MouseEvent &&
+        (event.button !== 0 ||
+          event.metaKey ||
+          event.ctrlKey ||
+          event.shiftKey ||
+          event.altKey))
+    ) {
+      return;
+    }
+
+    const link = target.closest<HTMLElement>(selector);
+    const type = types.find((type) => link?.hasAttribute(`data-link-${type}`));
+    if (!link || !type) return;
+
+    event.preventDefault();
+    handlers[type]?.(link.getAttribute(`data-link-${type}`) || '');
+  };
+
+  root.addEventListener('click', onClick);
+  return () => root.removeEventListener('click', onClick);
+}
+
+/** Events handled by `delegateActions`, with the attribute naming the action */
+const ACTION_ATTRIBUTES = {
+  click: 'data-action',
+  change: 'data-change-action',
+  input: 'data-input-action',
+  keydown: 'data-keydown-action',
+} as const;
+
+interface ActionEventMap {
+  click: MouseEvent;
+  change: Event;
+  input: Event;
+  keydown: KeyboardEvent;
+}
+
+/**
+ * Named handlers for `delegateActions`, grouped by event. Each is called with
+ * the element carrying the action attribute and the event.
+ */
+export type ActionHandlers = {
+  [Type in keyof ActionEventMap]?: Record<
+    string,
+    (element: HTMLElement, event: ActionEventMap[Type]) => void
+  >;
+};
+
+/**
+ * Dispatches events inside `root` to named handlers with one listener per
+ * event, instead of inline handlers calling functions on `window`. Markup
+ * names the action, and any data it needs goes in data attributes:
+ *
+ * ```html
+ * <button data-action="delete-post" data-post-id="7">Delete</button>
+ * <input data-input-action="count-characters" data-keydown-action="submit" />
+ * ```
+ *
+ * The closest element with an action attribute handles the event. Actions
+ * without a handler are ignored, so an outer container can handle them.
+ *
+ * @param root - The element to listen on.
+ * @param actions - Handler sets; the first with a handler for an action wins.
+ * @returns A function that removes the listeners.
+ */
+export function delegateActions(
+  root: Document | HTMLElement,
+  ...actions: ActionHandlers[]
+): () => void {
+  const types = (
+    Object.keys(ACTION_ATTRIBUTES) as (keyof ActionEventMap)[]
+  ).filter((type) => actions.some((handlers) => handlers[type]));
+
+  const onEvent = (event: Event) => {
+    const type = event.type as keyof ActionEventMap;
+    const attribute = ACTION_ATTRIBUTES[type];
+    const { target } = event;
+    if (!(target instanceof Element)) return;
+
+    const element = target.closest<HTMLElement>(`[${attribute}]`);
+    if (!element || !root.contains(element)) return;
+
+    const name = element.getAttribute(attribute) || '';
+    const handler = actions.find((handlers) => handlers[type]?.[name])?.[
+      type
+    ]?.[name] as ((element: HTMLElement, event: Event) => void) | undefined;
+    handler?.(element, event);
+  };
+
+  types.forEach((type) => root.addEventListener(type, onEvent));
+  return () => types.forEach((type) => root.removeEventListener(type, onEvent));
+}
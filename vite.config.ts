@@ -1,7 +1,51 @@
 /// <reference types="vitest" />
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+// Served from `public/`, so not part of the bundle
+const PUBLIC_SHELL_FILES = ['/manifest.webmanifest', '/icons/icon.svg'];
+
+/**
+ * Writes the list of built files into the service worker so it can precache
+ * the app shell.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const worker = bundle['sw.js'];
+      if (!worker || worker.type !== 'chunk') return;
+
+      // index.html may not have been emitted yet, so it is listed explicitly
+      const files = Object.keys(bundle)
+        .filter(
+          (file) =>
+            !['sw.js', 'index.html'].includes(file) && !file.endsWith('.map')
+        )
+        .map((file) => `/${file}`);
+      worker.code = worker.code.replace(
+        'self.__PRECACHE_MANIFEST',
+        JSON.stringify(['/', '/index.html', ...files, ...PUBLIC_SHELL_FILES])
+      );
+    },
+  };
+}
 
 export default defineConfig({
+  plugins: [precacheManifest()],
+  build: {
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        sw: 'src/sw/sw.ts',
+      },
+      output: {
+        // The worker needs a fixed URL at the root to control the whole app
+        entryFileNames: (chunk) =>
+          chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
   test: {
     environment: 'jsdom', // or 'node' if backend only
   },